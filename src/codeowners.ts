@@ -0,0 +1,169 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { RepoInfo } from './git';
+
+// A line of a CODEOWNERS file: the pattern, the owners it assigns (none means unowned) and the 1-based line number
+export interface CodeownersRule {
+    pattern: string;
+    owners: string[];
+    line: number;
+    // Null for patterns GitHub doesn't support, e.g. negation with !
+    matcher: RegExp | null;
+}
+
+// Where GitHub looks for the file, in order; the first one found is used
+export const CODEOWNERS_PATHS = ['.github/CODEOWNERS', 'CODEOWNERS', 'docs/CODEOWNERS'];
+
+// Reads the repository's CODEOWNERS file, or null when there is none
+export async function readCodeowners(rootPath: string): Promise<{ path: string; rules: CodeownersRule[] } | null> {
+    for (const candidate of CODEOWNERS_PATHS) {
+        try {
+            const text = await fs.promises.readFile(path.join(rootPath, candidate), 'utf8');
+            return { path: candidate, rules: parseCodeowners(text) };
+        } catch (error) {
+            // Not in this location
+        }
+    }
+    return null;
+}
+
+export function parseCodeowners(text: string): CodeownersRule[] {
+    const rules: CodeownersRule[] = [];
+    text.split(/\r?\n/).forEach((rawLine, index) => {
+        const [pattern, ...owners] = splitCodeownersLine(rawLine);
+        if (pattern) {
+            rules.push({ pattern, owners, line: index + 1, matcher: compileCodeownersPattern(pattern) });
+        }
+    });
+    return rules;
+}
+
+// Splits a line on unescaped whitespace, dropping comments. A backslash only escapes whitespace, so
+// "my\ file" is one pattern. GitHub doesn't support escaping #: a # starting a word always begins a
+// comment, and "\#file" stays as written, a pattern that never matches (see compileCodeownersPattern).
+function splitCodeownersLine(line: string): string[] {
+    const tokens: string[] = [];
+    let token = '';
+    let escaped = false;
+    for (const char of line) {
+        if (escaped) {
+            token += /\s/.test(char) ? char : `\\${char}`;
+            escaped = false;
+        } else if (char === '\\') {
+            escaped = true;
+        } else if (char === '#' && !token) {
+            break;
+        } else if (/\s/.test(char)) {
+            if (token) {
+                tokens.push(token);
+                token = '';
+            }
+        } else {
+            token += char;
+        }
+    }
+    if (escaped) {
+        token += '\\';
+    }
+    if (token) {
+        tokens.push(token);
+    }
+    return tokens;
+}
+
+// Turns a pattern into a regular expression over paths relative to the repository root, following
+// GitHub's gitignore-style rules:
+// - a leading slash, or a slash in the middle, anchors the pattern to the root; otherwise it matches at any depth
+// - a trailing slash only matches directories, which own everything below them
+// - * and ? match within a path segment, ** across segments
+// - a pattern ending in /* matches the files directly in a directory but not in its subdirectories
+export function compileCodeownersPattern(pattern: string): RegExp | null {
+    // GitHub doesn't support negation, character ranges or escaping a leading #
+    if (pattern.startsWith('!') || pattern.startsWith('\\#') || /[[\]]/.test(pattern)) {
+        return null;
+    }
+
+    const directoryOnly = pattern.endsWith('/');
+    let body = pattern.replace(/\/+$/, '');
+    const anchored = body.startsWith('/') || body.includes('/', 1);
+    body = body.replace(/^\/+/, '');
+    if (!body) {
+        // "/" on its own owns the whole repository
+        return /^/;
+    }
+
+    const segments = body.split('/');
+    let source = '';
+    segments.forEach((segment, index) => {
+        const last = index === segments.length - 1;
+        if (segment === '**') {
+            // Any number of directories, including none; at the end, everything below
+            source += last ? '.*' : '(?:[^/]+/)*';
+            return;
+        }
+        source += segment.split('').map(char => {
+            switch (char) {
+                case '*':
+                    return '[^/]*';
+                case '?':
+                    return '[^/]';
+                default:
+                    return char.replace(/[.+^${}()|\\]/g, '\\$&');
+            }
+        }).join('');
+        if (!last) {
+            source += '/';
+        }
+    });
+
+    const prefix = anchored ? '^' : '^(?:[^/]+/)*';
+    let suffix: string;
+    if (directoryOnly) {
+        suffix = '/.+$';
+    } else if (segments[segments.length - 1] === '*' && segments.length > 1) {
+        suffix = '$';
+    } else {
+        // A file, or a directory and everything in it
+        suffix = '(?:/.+)?$';
+    }
+    return new RegExp(prefix + source + suffix);
+}
+
+// The rule deciding who owns a file: the last one that matches
+export function findCodeownersRule(rules: CodeownersRule[], relativePath: string): CodeownersRule | null {
+    const normalized = relativePath.replace(/\\/g, '/').replace(/^\/+/, '');
+    for (let index = rules.length - 1; index >= 0; index--) {
+        if (rules[index].matcher?.test(normalized)) {
+            return rules[index];
+        }
+    }
+    return null;
+}
+
+// The page of an owner on the repository's host: @user, @org/team (a group path on GitLab) or an email address
+export function getOwnerUrl(repoInfo: RepoInfo, owner: string): string | null {
+    if (!owner.startsWith('@')) {
+        return owner.includes('@') ? `mailto:${owner}` : null;
+    }
+
+    let origin: string;
+    try {
+        origin = new URL(repoInfo.remoteUrl).origin;
+    } catch (error) {
+        return null;
+    }
+
+    const name = owner.slice(1);
+    const [org, team] = name.split('/');
+    switch (repoInfo.provider) {
+        case 'github':
+            return team ? `${origin}/orgs/${org}/teams/${team}` : `${origin}/${name}`;
+        case 'gitea':
+            return team ? `${origin}/org/${org}/teams/${team}` : `${origin}/${name}`;
+        case 'gitlab':
+            // Groups and subgroups have their page at their path, like users
+            return `${origin}/${name}`;
+        default:
+            return null;
+    }
+}
@@ -1,7 +1,96 @@
 // The module 'vscode' contains the VS Code extensibility API
 // Import the module and reference it with the alias vscode in your code below
 import * as vscode from 'vscode';
-import { getRepoInfo, buildGitHubUrl } from './git';
+import * as fs from 'fs';
+import * as path from 'path';
+import { getRepoInfo, RepoInfoError, RepoFailureReason, GitRef, listRefs, getRecentCommits, getPathAtRef, buildGitHubUrl, buildGitHubHeadingUrl, buildGitHubCompareUrl, getRemoteDefaultBranch, buildGitHubPathUrl, buildGitHubPermalink, isDirectory, isCommitPushed, getNewestPushedAncestor, getRemoteTrackingRef, getFileAtRef, getLastCommitForLines, getGitRootPath, getHostedRemotes, getHeadCommit, resolveRefAndPath, resolveCommit, RepoInfo, RepoInfoOptions, GitRemote, ViewKind } from './git';
+import { LinkFormat, LinkValues, DEFAULT_TEMPLATES, formatLink, escapeHtml } from './format';
+import { parseGitHubFileUrl } from './githubUrl';
+import { readCodeowners, findCodeownersRule, getOwnerUrl } from './codeowners';
+import { getLog, disposeLog } from './log';
+import { getHeadingAt } from './markdown';
+import { ProviderId, isCommitSha } from './providers';
+import { RepoStateService, createRepoStateService } from './repoState';
+import { createStatusBar } from './statusBar';
+import { SymbolLinkArgs, isSymbolLinkArgs, registerSymbolLinks } from './symbolLinks';
+import { computeLineMapping, mapRange, findNearestMappedLine, splitLines, getSelectionLines, mergeLineRanges } from './lineMapping';
+
+// Where an editor's document comes from: the file in the repository and, for documents showing
+// a revision from git, the ref of that revision
+interface DocumentLocation {
+	filePath: string;
+	ref?: string;
+	// A cell of a notebook, whose lines don't correspond to lines of the notebook file
+	notebook: boolean;
+}
+
+// The document a command links and its 1-based line ranges
+interface LineSource {
+	document: vscode.TextDocument;
+	lines: { startLine: number; endLine: number }[];
+	// The 1-based line of the cursor when nothing is selected, which may be a Markdown heading to link instead
+	cursorLine?: number;
+}
+
+// A 1-based line range at the ref a link points to
+interface LinkTarget {
+	ref: string;
+	startLine: number;
+	endLine: number;
+}
+
+// Copy commands registered in package.json, keyed by the format they put on the clipboard
+const COPY_COMMANDS: Record<string, LinkFormat> = {
+	'open-in-github-simple.copyUrl': 'url',
+	'open-in-github-simple.copyMarkdownLink': 'markdown',
+	'open-in-github-simple.copyMarkdownSnippet': 'markdownSnippet',
+	'open-in-github-simple.copyHtmlLink': 'html'
+};
+
+// Commands that open the file in a view other than the blob page, keyed by the view they open
+const VIEW_COMMANDS: Record<string, Exclude<ViewKind, 'blob'>> = {
+	'open-in-github-simple.openBlame': 'blame',
+	'open-in-github-simple.openHistory': 'history',
+	'open-in-github-simple.openRaw': 'raw',
+	'open-in-github-simple.openLastCommit': 'commit'
+};
+
+// Entries of the "Open in Github…" quick pick and the command each one runs
+const VIEW_PICKS: { label: string; description: string; command: string }[] = [
+	{ label: 'File', description: 'The file at the selected lines', command: 'open-in-github-simple.openInGithub' },
+	{ label: 'Permalink', description: 'The file at the checked-out commit', command: 'open-in-github-simple.openPermalink' },
+	{ label: 'Blame', description: 'Who last changed the selected lines', command: 'open-in-github-simple.openBlame' },
+	{ label: 'History', description: 'Commits that changed the file', command: 'open-in-github-simple.openHistory' },
+	{ label: 'Raw', description: 'The raw file contents', command: 'open-in-github-simple.openRaw' },
+	{ label: 'Last Commit', description: 'The commit that last changed the selected lines', command: 'open-in-github-simple.openLastCommit' },
+	{ label: 'Other Ref', description: 'The file at a branch, tag or commit you choose', command: 'open-in-github-simple.openAtRef' },
+	{ label: 'Compare', description: 'The current branch compared with its base', command: 'open-in-github-simple.openCompare' },
+	{ label: 'Pull Request', description: 'Create a pull request for the current branch', command: 'open-in-github-simple.openPullRequest' }
+];
+
+// Actions offered by error notifications
+const SHOW_LOG = 'Show Log';
+const CHOOSE_REMOTE = 'Choose Remote';
+const OPEN_SETTINGS = 'Open Settings';
+
+// The actions that may fix each failure, and the settings Open Settings searches for
+const FAILURE_ACTIONS: Record<RepoFailureReason, { actions: string[]; settings?: string }> = {
+	// The git on the PATH is run, so no setting can point at another one
+	gitNotFound: { actions: [] },
+	notRepository: { actions: [] },
+	noRemote: { actions: [] },
+	unsupportedRemote: { actions: [OPEN_SETTINGS], settings: 'open-in-github-simple.providerHosts' },
+	noRemoteSelected: { actions: [CHOOSE_REMOTE] },
+	noHead: { actions: [] },
+	unpushed: { actions: [CHOOSE_REMOTE] },
+	gitError: { actions: [] }
+};
+
+// Read-only documents showing a file at another revision. The path is the file on disk and the query holds the ref.
+const REVISION_SCHEME = 'open-in-github-revision';
+
+// Caches repository state between commands, created on activation
+let repoStateService: RepoStateService | undefined;
 
 // This method is called when your extension is activated
 // Your extension is activated the very first time the command is executed
@@ -11,61 +100,1189 @@ export function activate(context: vscode.ExtensionContext) {
 	// This line of code will only be executed once when your extension is activated
 	console.log('Congratulations, your extension "open-in-github-simple" is now active!');
 
+	repoStateService = createRepoStateService();
+	context.subscriptions.push(repoStateService);
+
+	// Updating the status bar must not ask which remote to use, so it shows the chosen one or origin
+	context.subscriptions.push(createStatusBar(async uri => {
+		const location = getDocumentLocation(uri);
+		return location ? await getRepoInfo(location.filePath, { ...getRepoInfoOptions(context), pickRemote: undefined }) : null;
+	}, repoStateService.onDidChange));
+	context.subscriptions.push(registerSymbolLinks());
+
 	// The command has been defined in the package.json file
 	// Now provide the implementation of the command with registerCommand
 	// The commandId parameter must match the command field in package.json
-	const disposable = vscode.commands.registerCommand('open-in-github-simple.openInGithub', async () => {
-		// Get the active editor
-		const editor = vscode.window.activeTextEditor;
-		if (!editor) {
+	const disposable = vscode.commands.registerCommand('open-in-github-simple.openInGithub', async (...args: unknown[]) => {
+		// Run from a context menu on files or folders other than the active editor
+		const uris = getCommandUris(args);
+		if (uris.length > 0 && !isActiveEditorUri(uris)) {
+			for (const link of await buildUriLinks(context, uris)) {
+				vscode.env.openExternal(vscode.Uri.parse(link.url));
+				console.log(`Opening ${link.url}`);
+			}
+			return;
+		}
+
+		// Get the active editor, or the symbol a CodeLens or hover was clicked for
+		const source = await getLineSource(args.find(isSymbolLinkArgs));
+		if (!source) {
 			vscode.window.showErrorMessage('No active editor found');
 			return;
 		}
 
 		// Get the current file path and selection information
-		const filePath = editor.document.uri.fsPath;
-		const selection = editor.selection;
-
-		// Calculate the start and end line numbers (1-based for GitHub)
-		const startLine = selection.start.line + 1;
-		const endLine = selection.end.line + 1;
+		const location = getDocumentLocation(source.document.uri);
+		if (!location) {
+			vscode.window.showErrorMessage(`Cannot link ${source.document.uri.scheme} documents to GitHub`);
+			return;
+		}
+		const filePath = location.filePath;
 
 		try {
 			// Get the Git repository information
-			const repoInfo = await getRepoInfo(filePath);
+			const repoInfo = await getRepoInfoOrNotify(context, filePath);
 			if (!repoInfo) {
-				vscode.window.showErrorMessage('Could not determine GitHub repository information');
-				console.error('Failed to get GitHub repository information. Check the logs for more details.');
 				return;
 			}
 
-			// Build the GitHub URL with selection range if applicable
-			let githubUrl;
-			
-			// Check if text is selected across multiple lines
-			if (!selection.isEmpty && startLine !== endLine) {
-				// Multi-line selection
-				githubUrl = buildGitHubUrl(repoInfo, filePath, startLine, endLine);
-			} else {
-				// Single line or just cursor position
-				githubUrl = buildGitHubUrl(repoInfo, filePath, startLine);
+			// A revision from a diff editor or the Timeline links to its commit rather than the branch
+			const ref = location.ref ? await resolveRevision(repoInfo, location.ref) : repoInfo.branch;
+			if (!ref) {
+				return;
 			}
-			
-			if (!githubUrl) {
-				vscode.window.showErrorMessage('Failed to build GitHub URL');
+			if (!location.ref) {
+				showBranchNotice(repoInfo);
+			}
+
+			if (location.notebook) {
+				openLink(buildGitHubPathUrl(repoInfo, filePath, false, ref));
 				return;
 			}
 
+			const headingLink = await pickHeadingLink(repoInfo, source, filePath, ref);
+			if (headingLink !== undefined) {
+				if (headingLink) {
+					openLink(headingLink.url);
+				}
+				return;
+			}
+
+			// One link per selection, merged where selections overlap or touch
+			const links: LinkValues[] = [];
+			for (const { startLine, endLine } of source.lines) {
+				// Translate the selection to the lines of the file on the remote
+				const target = await remapLinesToRemote(repoInfo, source.document, filePath, { ref, startLine, endLine });
+				if (!target) {
+					return;
+				}
+
+				// Build the GitHub URL with selection range if applicable
+				let githubUrl;
+
+				// Check if text is selected across multiple lines
+				if (target.startLine !== target.endLine) {
+					// Multi-line selection
+					githubUrl = buildGitHubUrl(repoInfo, filePath, target.startLine, target.endLine, target.ref);
+				} else {
+					// Single line or just cursor position
+					githubUrl = buildGitHubUrl(repoInfo, filePath, target.startLine, undefined, target.ref);
+				}
+
+				if (!githubUrl) {
+					vscode.window.showErrorMessage('Failed to build GitHub URL');
+					return;
+				}
+				links.push({ url: githubUrl, path: getRelativePath(repoInfo, filePath), startLine: target.startLine, endLine: target.endLine });
+			}
+
 			// Open the URL in the browser
-			vscode.env.openExternal(vscode.Uri.parse(githubUrl));
-			console.log(`Opening ${githubUrl}`);
+			await openLinks(links);
 		} catch (error) {
 			vscode.window.showErrorMessage(`Error: ${error instanceof Error ? error.message : String(error)}`);
 		}
 	});
 
 	context.subscriptions.push(disposable);
+
+	// Same as openInGithub, but pins the link to the commit SHA so it survives branch updates
+	const permalinkDisposable = vscode.commands.registerCommand('open-in-github-simple.openPermalink', async () => {
+		const editor = vscode.window.activeTextEditor;
+		if (!editor) {
+			vscode.window.showErrorMessage('No active editor found');
+			return;
+		}
+
+		const location = getDocumentLocation(editor.document.uri);
+		if (!location) {
+			vscode.window.showErrorMessage(`Cannot link ${editor.document.uri.scheme} documents to GitHub`);
+			return;
+		}
+		const filePath = location.filePath;
+
+		try {
+			const repoInfo = await getRepoInfoOrNotify(context, filePath);
+			if (!repoInfo) {
+				return;
+			}
+
+			// A revision from a diff editor or the Timeline is pinned to its own commit
+			let commit: string | undefined;
+			if (location.ref) {
+				commit = await resolveRevision(repoInfo, location.ref);
+			} else if (repoInfo.commit) {
+				commit = await resolvePushedCommit(repoInfo, repoInfo.commit);
+			} else {
+				vscode.window.showErrorMessage('The repository has no commits to link to');
+				return;
+			}
+			if (!commit) {
+				return;
+			}
+
+			if (location.notebook) {
+				openLink(buildGitHubPathUrl(repoInfo, filePath, false, commit));
+				return;
+			}
+
+			const links: LinkValues[] = [];
+			for (const { startLine, endLine } of getSelectedLines(editor)) {
+				const target = await remapLinesToRemote(repoInfo, editor.document, filePath, { ref: commit, startLine, endLine });
+				if (!target) {
+					return;
+				}
+
+				const permalink = buildGitHubPermalink(repoInfo, filePath, target.startLine, target.endLine, target.ref);
+				if (!permalink) {
+					vscode.window.showErrorMessage('Failed to build GitHub URL');
+					return;
+				}
+				links.push({ url: permalink, path: getRelativePath(repoInfo, filePath), startLine: target.startLine, endLine: target.endLine });
+			}
+
+			await openLinks(links);
+		} catch (error) {
+			vscode.window.showErrorMessage(`Error: ${error instanceof Error ? error.message : String(error)}`);
+		}
+	});
+
+	context.subscriptions.push(permalinkDisposable);
+
+	for (const [command, format] of Object.entries(COPY_COMMANDS)) {
+		context.subscriptions.push(vscode.commands.registerCommand(command, (...args: unknown[]) =>
+			copyGitHubLink(context, format, getCommandUris(args), args.find(isSymbolLinkArgs))));
+	}
+
+	for (const [command, view] of Object.entries(VIEW_COMMANDS)) {
+		context.subscriptions.push(vscode.commands.registerCommand(command, () => openGitHubView(context, view)));
+	}
+
+	context.subscriptions.push(vscode.commands.registerCommand('open-in-github-simple.openFromUrl', (url?: unknown) =>
+		openFromGitHubUrl(context, typeof url === 'string' ? url : undefined)));
+
+	context.subscriptions.push(vscode.workspace.registerTextDocumentContentProvider(REVISION_SCHEME, {
+		provideTextDocumentContent: async uri => {
+			const { root, ref } = JSON.parse(uri.query) as { root: string; ref: string };
+			const relativePath = path.relative(root, uri.fsPath).replace(/\\/g, '/');
+			return await getFileAtRef(root, ref, relativePath) ?? '';
+		}
+	}));
+
+	// vscode://<extension id>/open?url=<GitHub link>, e.g. from a browser bookmarklet
+	context.subscriptions.push(vscode.window.registerUriHandler({
+		handleUri: uri => {
+			const url = new URLSearchParams(uri.query).get('url');
+			if (uri.path === '/open' && url) {
+				return openFromGitHubUrl(context, url);
+			}
+			vscode.window.showErrorMessage(`Unsupported link: ${uri.toString(true)}`);
+		}
+	}));
+
+	context.subscriptions.push(vscode.commands.registerCommand('open-in-github-simple.openAtRef', () => openAtRef(context)));
+
+	context.subscriptions.push(vscode.commands.registerCommand('open-in-github-simple.openCompare', () => openCompare(context, false)));
+	context.subscriptions.push(vscode.commands.registerCommand('open-in-github-simple.openPullRequest', () => openCompare(context, true)));
+
+	context.subscriptions.push(vscode.commands.registerCommand('open-in-github-simple.showCodeOwners', (...args: unknown[]) =>
+		showCodeOwners(context, getCommandUris(args))));
+
+	context.subscriptions.push(vscode.commands.registerCommand('open-in-github-simple.chooseRemote', (rootPath?: unknown) =>
+		chooseRemote(context, typeof rootPath === 'string' ? rootPath : undefined)));
+
+	context.subscriptions.push(vscode.commands.registerCommand('open-in-github-simple.openView', async () => {
+		const picked = await vscode.window.showQuickPick(VIEW_PICKS, { placeHolder: 'Select what to open in GitHub' });
+		if (picked) {
+			await vscode.commands.executeCommand(picked.command);
+		}
+	}));
+}
+
+// Gets the repository information for a file, telling the user why when there is none. Dismissing
+// the remote quick pick cancels the command without a notification.
+async function getRepoInfoOrNotify(context: vscode.ExtensionContext, filePath: string): Promise<RepoInfo | null> {
+	let failure: RepoInfoError | undefined;
+	const repoInfo = await getRepoInfo(filePath, { ...getRepoInfoOptions(context), onFailure: error => { failure = error; } });
+	if (!repoInfo && failure?.reason !== 'noRemoteSelected') {
+		showRepoFailure(
+			failure?.reason ?? 'gitError',
+			failure?.message ?? `Could not determine GitHub repository information for ${path.basename(filePath)}`,
+			failure?.rootPath
+		);
+	}
+	return repoInfo;
+}
+
+// Explains why a link can't be made, offering the actions that may fix it plus the log
+async function showRepoFailure(reason: RepoFailureReason, message: string, rootPath?: string): Promise<void> {
+	const { actions, settings } = FAILURE_ACTIONS[reason];
+	const notify = reason === 'unpushed' ? vscode.window.showWarningMessage : vscode.window.showErrorMessage;
+	const choice = await notify(message, ...actions, SHOW_LOG);
+	switch (choice) {
+		case CHOOSE_REMOTE:
+			await vscode.commands.executeCommand('open-in-github-simple.chooseRemote', rootPath);
+			break;
+		case OPEN_SETTINGS:
+			await vscode.commands.executeCommand('workbench.action.openSettings', settings);
+			break;
+		case SHOW_LOG:
+			getLog().show();
+			break;
+	}
+}
+
+// Asks which remote links to the repository should use. The choice is kept for the workspace and wins
+// over preferredRemotes and the tracked remote, without touching the settings shared by other repositories.
+async function chooseRemote(context: vscode.ExtensionContext, rootPath?: string): Promise<void> {
+	if (!rootPath) {
+		const uri = vscode.window.activeTextEditor?.document.uri ?? vscode.workspace.workspaceFolders?.[0]?.uri;
+		const location = uri && getDocumentLocation(uri);
+		rootPath = location && await getGitRootPath(location.filePath) || undefined;
+	}
+	if (!rootPath) {
+		showRepoFailure('notRepository', 'Open a file in a git repository to choose its remote');
+		return;
+	}
+
+	const remotes = await getHostedRemotes(rootPath, getRepoInfoOptions(context));
+	if (remotes.length === 0) {
+		showRepoFailure('unsupportedRemote', `None of the remotes of ${path.basename(rootPath)} is on a supported host`);
+		return;
+	}
+
+	const picked = await vscode.window.showQuickPick(
+		remotes.map(remote => ({ label: remote.name, description: remote.url, remote })),
+		{ placeHolder: `Select the remote of ${path.basename(rootPath)} to link to` }
+	);
+	if (!picked) {
+		return;
+	}
+
+	await rememberRemote(context, rootPath, picked.remote);
+	// So the status bar shows the new remote
+	repoStateService?.refresh(rootPath);
+	vscode.window.setStatusBarMessage(`GitHub links now use ${picked.remote.name}`, 3000);
+}
+
+function getRepoInfoOptions(context: vscode.ExtensionContext): RepoInfoOptions {
+	return {
+		preferredRemotes: vscode.workspace.getConfiguration('open-in-github-simple').get<string[]>('preferredRemotes', []),
+		getChosenRemote: rootPath => context.workspaceState.get<string>(`selectedRemote:${rootPath}`),
+		pickRemote: (remotes, rootPath) => pickRemote(context, remotes, rootPath),
+		providerHosts: vscode.workspace.getConfiguration('open-in-github-simple').get<Record<string, ProviderId>>('providerHosts', {}),
+		enterpriseHosts: vscode.workspace.getConfiguration('open-in-github-simple').get<Record<string, string>>('enterpriseHosts', {}),
+		pinSubmodules: vscode.workspace.getConfiguration('open-in-github-simple').get<boolean>('submodulePinnedCommit', false),
+		getRepoState: repoStateService?.getRepoState
+	};
+}
+
+// Context menus pass the clicked Uri plus the whole selection (explorer), a single Uri (editor
+// title and tabs) or SourceControlResourceStates (SCM). The command palette passes nothing.
+function getCommandUris(args: unknown[]): vscode.Uri[] {
+	const [, selection] = args;
+	if (Array.isArray(selection) && selection.length > 0 && selection.every(item => item instanceof vscode.Uri)) {
+		return selection;
+	}
+
+	const uris: vscode.Uri[] = [];
+	for (const arg of args) {
+		if (arg instanceof vscode.Uri) {
+			uris.push(arg);
+		} else if (arg && typeof arg === 'object' && 'resourceUri' in arg && arg.resourceUri instanceof vscode.Uri) {
+			uris.push(arg.resourceUri);
+		}
+	}
+	return uris;
+}
+
+// The editor title menu passes the active editor's Uri, which should keep linking the selection
+function isActiveEditorUri(uris: vscode.Uri[]): boolean {
+	const editor = vscode.window.activeTextEditor;
+	return uris.length === 1 && editor !== undefined && editor.document.uri.toString() === uris[0].toString();
+}
+
+// Builds a file, folder or repository home page link for each Uri, reporting the ones that can't be linked
+async function buildUriLinks(context: vscode.ExtensionContext, uris: vscode.Uri[]): Promise<{ url: string; path: string }[]> {
+	const links: { url: string; path: string }[] = [];
+	const notifiedRoots = new Set<string>();
+
+	for (const uri of uris) {
+		const fsPath = getDocumentLocation(uri)?.filePath ?? uri.fsPath;
+		const repoInfo = await getRepoInfoOrNotify(context, fsPath);
+		if (!repoInfo) {
+			continue;
+		}
+		const url = buildGitHubPathUrl(repoInfo, fsPath, await isDirectory(fsPath));
+		if (!url) {
+			vscode.window.showErrorMessage(`Could not determine GitHub repository information for ${path.basename(fsPath)}`);
+			continue;
+		}
+
+		// One notice per repository is enough when several files are selected
+		if (!notifiedRoots.has(repoInfo.rootPath)) {
+			notifiedRoots.add(repoInfo.rootPath);
+			showBranchNotice(repoInfo);
+		}
+
+		links.push({ url, path: path.relative(repoInfo.rootPath, fsPath).replace(/\\/g, '/') || path.basename(repoInfo.rootPath) });
+	}
+
+	return links;
+}
+
+// Maps the URI of an editor's document to the file in the repository, or undefined for documents
+// that aren't backed by one (untitled files, settings, output)
+function getDocumentLocation(uri: vscode.Uri): DocumentLocation | undefined {
+	switch (uri.scheme) {
+		case 'git': {
+			// Diff editors, the Timeline and "Open File at Revision" use git:<path>?{"path":"<fsPath>","ref":"<ref>"}.
+			// The ref is '~' for the index and empty for the working tree, which the branch link covers.
+			let query: { path?: string; ref?: string } = {};
+			try {
+				query = JSON.parse(uri.query);
+			} catch (error) {
+				// Not the git extension's format
+			}
+			const ref = query.ref && query.ref !== '~' ? query.ref : undefined;
+			return { filePath: query.path ?? uri.fsPath, ref, notebook: false };
+		}
+		case REVISION_SCHEME: {
+			// Opened by "Go to File from Github URL" at the linked commit, see openFromGitHubUrl
+			let query: { ref?: string } = {};
+			try {
+				query = JSON.parse(uri.query);
+			} catch (error) {
+				// Malformed, link the branch
+			}
+			return { filePath: uri.fsPath, ref: query.ref, notebook: false };
+		}
+		case 'vscode-notebook-cell': {
+			// Cells share the notebook's path and tell cells apart in the fragment
+			const notebook = vscode.workspace.notebookDocuments.find(candidate =>
+				candidate.getCells().some(cell => cell.document.uri.toString() === uri.toString()));
+			const location = notebook && getDocumentLocation(notebook.uri);
+			return location && { ...location, notebook: true };
+		}
+		case 'untitled':
+		case 'vscode-userdata':
+		case 'output':
+			return undefined;
+		default:
+			// fsPath turns the authority of remote URIs (vscode-remote://ssh-remote+host/path) into a UNC path
+			return { filePath: uri.scheme !== 'file' && uri.authority ? uri.path : uri.fsPath, notebook: false };
+	}
+}
+
+// Resolves the ref of a revision shown from git to its commit, making sure the commit can be viewed on GitHub.
+// Returns undefined when it can't be resolved or the user cancels.
+async function resolveRevision(repoInfo: RepoInfo, ref: string): Promise<string | undefined> {
+	const commit = await resolveCommit(repoInfo.rootPath, ref);
+	if (!commit) {
+		vscode.window.showErrorMessage(`Could not find the revision ${ref} in ${path.basename(repoInfo.rootPath)}`);
+		return undefined;
+	}
+	return resolvePushedCommit(repoInfo, commit);
+}
+
+// The 1-based line ranges of the editor's selections, merged where they overlap or touch
+function getSelectedLines(editor: vscode.TextEditor): { startLine: number; endLine: number }[] {
+	return mergeLineRanges(editor.selections.map(getSelectionLines)).map(range => ({ startLine: range.start + 1, endLine: range.end + 1 }));
+}
+
+// The symbol passed by a CodeLens or hover, otherwise the active editor's selections
+async function getLineSource(symbol?: SymbolLinkArgs): Promise<LineSource | undefined> {
+	if (symbol) {
+		const document = await vscode.workspace.openTextDocument(vscode.Uri.parse(symbol.uri));
+		return { document, lines: [{ startLine: symbol.startLine, endLine: symbol.endLine }] };
+	}
+	const editor = vscode.window.activeTextEditor;
+	if (!editor) {
+		return undefined;
+	}
+	const cursorLine = editor.selections.length === 1 && editor.selection.isEmpty ? editor.selection.start.line + 1 : undefined;
+	return { document: editor.document, lines: getSelectedLines(editor), cursorLine };
+}
+
+// For the cursor on a Markdown heading, the link to the heading's anchor when the markdownHeadingLinks
+// setting allows it, asking first by default. Undefined links the lines instead; null means the question was dismissed.
+async function pickHeadingLink(repoInfo: RepoInfo, source: LineSource, filePath: string, ref: string): Promise<LinkValues | null | undefined> {
+	const mode = vscode.workspace.getConfiguration('open-in-github-simple').get<'ask' | 'always' | 'never'>('markdownHeadingLinks', 'ask');
+	if (mode === 'never' || source.cursorLine === undefined || source.document.languageId !== 'markdown') {
+		return undefined;
+	}
+
+	const heading = getHeadingAt(splitLines(source.document.getText()), source.cursorLine - 1);
+	const url = heading && buildGitHubHeadingUrl(repoInfo, filePath, heading.slug, ref);
+	if (!heading || !url) {
+		return undefined;
+	}
+
+	if (mode === 'ask') {
+		const picked = await vscode.window.showQuickPick([
+			{ label: `Heading: ${heading.text}`, description: `#${heading.slug}`, heading: true },
+			{ label: `Line ${source.cursorLine}`, description: 'The heading\'s source line', heading: false }
+		], { placeHolder: 'Link the rendered heading or its line?' });
+		if (!picked) {
+			return null;
+		}
+		if (!picked.heading) {
+			return undefined;
+		}
+	}
+	return { url, path: getRelativePath(repoInfo, filePath) };
+}
+
+function getRelativePath(repoInfo: RepoInfo, filePath: string): string {
+	return path.relative(repoInfo.rootPath, filePath).replace(/\\/g, '/');
+}
+
+// Markdown links become a list; snippets and other formats are separated by blank lines or line breaks
+function joinLinks(texts: string[], format: LinkFormat): string {
+	if (texts.length === 1) {
+		return texts[0];
+	}
+	if (format === 'markdown') {
+		return texts.map(text => `- ${text}`).join('\n');
+	}
+	return texts.join(format === 'markdownSnippet' ? '\n\n' : '\n');
+}
+
+// Opens a link in the browser. For several selections the user chooses between opening every
+// link and copying them as a block.
+async function openLinks(links: LinkValues[]): Promise<void> {
+	if (links.length <= 1) {
+		links.forEach(link => openLink(link.url));
+		return;
+	}
+
+	const picked = await vscode.window.showQuickPick([
+		{ label: `Open ${links.length} Links`, format: undefined },
+		{ label: 'Copy Links', description: 'One URL per line', format: 'url' as const },
+		{ label: 'Copy as Markdown List', description: 'One Markdown link per list item', format: 'markdown' as const }
+	], { placeHolder: `${links.length} selections: open or copy their links` });
+	if (!picked) {
+		return;
+	}
+
+	if (!picked.format) {
+		links.forEach(link => openLink(link.url));
+		return;
+	}
+
+	const template = vscode.workspace.getConfiguration('open-in-github-simple.copyFormat').get<string>(picked.format) || DEFAULT_TEMPLATES[picked.format];
+	await vscode.env.clipboard.writeText(joinLinks(links.map(link => formatLink(template, link)), picked.format));
+	vscode.window.setStatusBarMessage(`${links.length} GitHub links copied to clipboard`, 3000);
+}
+
+function openLink(url: string | null): void {
+	if (!url) {
+		vscode.window.showErrorMessage('Failed to build GitHub URL');
+		return;
+	}
+	vscode.env.openExternal(vscode.Uri.parse(url));
+	console.log(`Opening ${url}`);
+}
+
+// Tells the user when the link can't point at the checked-out branch, and which ref is used instead
+function showBranchNotice(repoInfo: RepoInfo): void {
+	const ref = `${repoInfo.remoteName}/${repoInfo.branch}`;
+	switch (repoInfo.branchSource) {
+		case 'upstream':
+			vscode.window.showInformationMessage(`Linking to ${ref}, the upstream of the current branch.`);
+			break;
+		case 'default':
+			vscode.window.showInformationMessage(`The current branch has not been pushed, linking to ${ref}, the default branch of ${repoInfo.remoteName}.`);
+			break;
+		case 'unborn':
+			vscode.window.showInformationMessage(`The repository has no commits yet, linking to ${ref}.`);
+			break;
+		case 'pinned':
+			vscode.window.showInformationMessage(`Linking to ${repoInfo.branch.slice(0, 7)}, the commit of this submodule pinned by its superproject.`);
+			break;
+		case 'local':
+			showRepoFailure('unpushed', `The current branch has not been pushed to ${repoInfo.remoteName} and its default branch is unknown, so the link may not work.`, repoInfo.rootPath);
+			break;
+	}
+}
+
+// Asks which remote to link to when a repository has several hosted remotes, remembering the answer
+// per repository for this workspace the same way Choose Remote does
+async function pickRemote(context: vscode.ExtensionContext, remotes: GitRemote[], rootPath: string): Promise<GitRemote | undefined> {
+	const picked = await vscode.window.showQuickPick(
+		remotes.map(remote => ({ label: remote.name, description: remote.url, remote })),
+		{ placeHolder: 'Select the remote to open in GitHub' }
+	);
+	if (!picked) {
+		return undefined;
+	}
+
+	await rememberRemote(context, rootPath, picked.remote);
+	return picked.remote;
+}
+
+// The remote links to the repository use from now on, read back by getChosenRemote
+async function rememberRemote(context: vscode.ExtensionContext, rootPath: string, remote: GitRemote): Promise<void> {
+	await context.workspaceState.update(`selectedRemote:${rootPath}`, remote.name);
+}
+
+// Builds the link for the active editor, or a symbol, and puts it on the clipboard using the configured template
+async function copyGitHubLink(context: vscode.ExtensionContext, format: LinkFormat, uris: vscode.Uri[] = [], symbol?: SymbolLinkArgs): Promise<void> {
+	const template = vscode.workspace.getConfiguration('open-in-github-simple.copyFormat').get<string>(format) || DEFAULT_TEMPLATES[format];
+	const escape = format === 'html' ? escapeHtml : undefined;
+
+	// Run from a context menu: one link per file or folder, without lines or code
+	if (uris.length > 0 && !isActiveEditorUri(uris)) {
+		const links = await buildUriLinks(context, uris);
+		if (links.length > 0) {
+			await vscode.env.clipboard.writeText(links.map(link => formatLink(template, link, escape)).join('\n'));
+			vscode.window.setStatusBarMessage(links.length === 1 ? 'GitHub link copied to clipboard' : `${links.length} GitHub links copied to clipboard`, 3000);
+		}
+		return;
+	}
+
+	const source = await getLineSource(symbol);
+	if (!source) {
+		vscode.window.showErrorMessage('No active editor found');
+		return;
+	}
+
+	const location = getDocumentLocation(source.document.uri);
+	if (!location) {
+		vscode.window.showErrorMessage(`Cannot link ${source.document.uri.scheme} documents to GitHub`);
+		return;
+	}
+	const filePath = location.filePath;
+
+	try {
+		const repoInfo = await getRepoInfoOrNotify(context, filePath);
+		if (!repoInfo) {
+			return;
+		}
+
+		const ref = location.ref ? await resolveRevision(repoInfo, location.ref) : repoInfo.branch;
+		if (!ref) {
+			return;
+		}
+		if (!location.ref) {
+			showBranchNotice(repoInfo);
+		}
+
+		// The notebook file as a whole, without the cell's lines and code
+		if (location.notebook) {
+			const notebookUrl = buildGitHubPathUrl(repoInfo, filePath, false, ref);
+			if (!notebookUrl) {
+				vscode.window.showErrorMessage('Failed to build GitHub URL');
+				return;
+			}
+			await vscode.env.clipboard.writeText(formatLink(template, { url: notebookUrl, path: path.relative(repoInfo.rootPath, filePath).replace(/\\/g, '/') }, escape));
+			vscode.window.setStatusBarMessage('GitHub link copied to clipboard', 3000);
+			return;
+		}
+
+		// The heading anchor, without lines or code
+		const headingLink = await pickHeadingLink(repoInfo, source, filePath, ref);
+		if (headingLink !== undefined) {
+			if (headingLink) {
+				await vscode.env.clipboard.writeText(formatLink(template, headingLink, escape));
+				vscode.window.setStatusBarMessage('GitHub link copied to clipboard', 3000);
+			}
+			return;
+		}
+
+		// One link per selection, merged where selections overlap or touch
+		const texts: string[] = [];
+		for (const { startLine, endLine } of source.lines) {
+			const target = await remapLinesToRemote(repoInfo, source.document, filePath, { ref, startLine, endLine });
+			if (!target) {
+				return;
+			}
+
+			const githubUrl = buildGitHubUrl(repoInfo, filePath, target.startLine, target.endLine, target.ref);
+			if (!githubUrl) {
+				vscode.window.showErrorMessage('Failed to build GitHub URL');
+				return;
+			}
+
+			// Whole lines, so the snippet matches what GitHub highlights
+			const code = source.document.getText(new vscode.Range(startLine - 1, 0, endLine - 1, Number.MAX_SAFE_INTEGER));
+
+			texts.push(formatLink(template, {
+				url: githubUrl,
+				path: getRelativePath(repoInfo, filePath),
+				startLine: target.startLine,
+				endLine: target.endLine,
+				code,
+				languageId: source.document.languageId
+			}, escape));
+		}
+
+		await vscode.env.clipboard.writeText(joinLinks(texts, format));
+		vscode.window.setStatusBarMessage(texts.length === 1 ? 'GitHub link copied to clipboard' : `${texts.length} GitHub links copied to clipboard`, 3000);
+	} catch (error) {
+		vscode.window.showErrorMessage(`Error: ${error instanceof Error ? error.message : String(error)}`);
+	}
+}
+
+// Opens the blame, history, raw or last commit page for the active editor
+async function openGitHubView(context: vscode.ExtensionContext, view: Exclude<ViewKind, 'blob'>): Promise<void> {
+	const editor = vscode.window.activeTextEditor;
+	if (!editor) {
+		vscode.window.showErrorMessage('No active editor found');
+		return;
+	}
+
+	const location = getDocumentLocation(editor.document.uri);
+	if (!location) {
+		vscode.window.showErrorMessage(`Cannot link ${editor.document.uri.scheme} documents to GitHub`);
+		return;
+	}
+	if (location.notebook && (view === 'blame' || view === 'commit')) {
+		vscode.window.showErrorMessage('Lines of notebook cells cannot be linked, only the whole notebook');
+		return;
+	}
+	const filePath = location.filePath;
+
+	// Views show a single range, taken from the primary selection (1-based for GitHub)
+	const lines = getSelectionLines(editor.selection);
+	const startLine = lines.start + 1;
+	const endLine = lines.end + 1;
+
+	try {
+		const repoInfo = await getRepoInfoOrNotify(context, filePath);
+		if (!repoInfo) {
+			return;
+		}
+
+		let githubUrl: string | null;
+		if (view === 'commit') {
+			// Blame runs on the file on disk, or the revision shown. Unsaved edits are mapped away first,
+			// so the lines asked about are the ones selected in the editor.
+			const relativePath = path.relative(repoInfo.rootPath, filePath).replace(/\\/g, '/');
+			const revision = location.ref ? await resolveCommit(repoInfo.rootPath, location.ref) ?? undefined : undefined;
+			let blameLines = { start: startLine - 1, end: endLine - 1 };
+			if (!location.ref && editor.document.isDirty) {
+				const savedText = await fs.promises.readFile(filePath, 'utf8').catch(() => null);
+				const mapping = savedText !== null ? computeLineMapping(splitLines(savedText), splitLines(editor.document.getText())) : null;
+				const mapped = mapping && mapRange(mapping, blameLines);
+				if (!mapped) {
+					vscode.window.showErrorMessage('The selected lines have not been saved yet');
+					return;
+				}
+				blameLines = mapped;
+			}
+			const blamed = await getLastCommitForLines(repoInfo.rootPath, relativePath, blameLines.start + 1, blameLines.end + 1, revision);
+			if (!blamed) {
+				vscode.window.showErrorMessage('The selected lines have not been committed yet');
+				return;
+			}
+
+			if (!await isCommitPushed(repoInfo.rootPath, blamed.commit)) {
+				const openAnyway = 'Open Anyway';
+				const choice = await vscode.window.showWarningMessage(
+					`Commit ${blamed.commit.slice(0, 7)} has not been pushed to any remote, so the link will 404 on GitHub.`,
+					openAnyway
+				);
+				if (choice !== openAnyway) {
+					return;
+				}
+			}
+
+			githubUrl = buildGitHubUrl(repoInfo, path.join(repoInfo.rootPath, blamed.filePath), blamed.line, undefined, blamed.commit, 'commit');
+		} else {
+			const ref = location.ref ? await resolveRevision(repoInfo, location.ref) : repoInfo.branch;
+			if (!ref) {
+				return;
+			}
+			if (!location.ref) {
+				showBranchNotice(repoInfo);
+			}
+
+			// Only blame highlights lines; history and raw cover the whole file
+			let target: LinkTarget | undefined = { ref, startLine, endLine };
+			if (view === 'blame') {
+				target = await remapLinesToRemote(repoInfo, editor.document, filePath, target);
+				if (!target) {
+					return;
+				}
+			}
+
+			githubUrl = buildGitHubUrl(repoInfo, filePath, target.startLine, target.endLine, target.ref, view);
+		}
+
+		if (!githubUrl) {
+			vscode.window.showErrorMessage('Failed to build GitHub URL');
+			return;
+		}
+
+		vscode.env.openExternal(vscode.Uri.parse(githubUrl));
+		console.log(`Opening ${githubUrl}`);
+	} catch (error) {
+		vscode.window.showErrorMessage(`Error: ${error instanceof Error ? error.message : String(error)}`);
+	}
+}
+
+// Quick pick sections for the kinds of refs openAtRef lists
+const REF_SECTIONS: { kind: GitRef['kind']; label: string; icon: string }[] = [
+	{ kind: 'branch', label: 'Branches', icon: '$(git-branch)' },
+	{ kind: 'remote', label: 'Remote Branches', icon: '$(cloud)' },
+	{ kind: 'tag', label: 'Tags', icon: '$(tag)' },
+	{ kind: 'commit', label: 'Recent Commits', icon: '$(git-commit)' }
+];
+
+// Opens the active file at a branch, tag or commit picked from the repository's refs. Files renamed
+// since that ref are linked under their old path.
+async function openAtRef(context: vscode.ExtensionContext): Promise<void> {
+	const editor = vscode.window.activeTextEditor;
+	if (!editor) {
+		vscode.window.showErrorMessage('No active editor found');
+		return;
+	}
+
+	const location = getDocumentLocation(editor.document.uri);
+	if (!location) {
+		vscode.window.showErrorMessage(`Cannot link ${editor.document.uri.scheme} documents to GitHub`);
+		return;
+	}
+	const filePath = location.filePath;
+
+	try {
+		const repoInfo = await getRepoInfoOrNotify(context, filePath);
+		if (!repoInfo) {
+			return;
+		}
+
+		const refs = [...await listRefs(repoInfo.rootPath), ...await getRecentCommits(repoInfo.rootPath)];
+		const items: (vscode.QuickPickItem & { gitRef?: GitRef })[] = [];
+		for (const section of REF_SECTIONS) {
+			const sectionRefs = refs.filter(ref => ref.kind === section.kind);
+			if (sectionRefs.length > 0) {
+				items.push({ label: section.label, kind: vscode.QuickPickItemKind.Separator });
+			}
+			for (const gitRef of sectionRefs) {
+				items.push({
+					label: `${section.icon} ${gitRef.kind === 'commit' ? gitRef.commit.slice(0, 7) : gitRef.name}`,
+					description: gitRef.subject,
+					detail: gitRef.kind === 'commit' ? gitRef.date : `${gitRef.commit.slice(0, 7)}, ${gitRef.date}`,
+					gitRef
+				});
+			}
+		}
+
+		const picked = await vscode.window.showQuickPick(items, {
+			placeHolder: 'Select the branch, tag or commit to open the file at',
+			matchOnDescription: true,
+			matchOnDetail: true
+		});
+		if (!picked?.gitRef) {
+			return;
+		}
+
+		const target = await resolveRefTarget(context, filePath, repoInfo, picked.gitRef);
+		if (!target) {
+			return;
+		}
+
+		// A SHA is the pushed commit linked instead of the picked ref, and the file is looked up there. Branch
+		// names of another remote can't be resolved locally, but link to the same commit as the picked ref.
+		const localRef = isCommitSha(target.ref) ? target.ref : picked.gitRef.ref;
+		const refName = localRef === picked.gitRef.ref ? picked.gitRef.name : localRef.slice(0, 7);
+
+		// The file may have had another name at that ref
+		const relativePath = getRelativePath(repoInfo, filePath);
+		const pathAtRef = await getPathAtRef(repoInfo.rootPath, relativePath, localRef);
+		if (!pathAtRef) {
+			vscode.window.showErrorMessage(`${relativePath} did not exist at ${refName}`);
+			return;
+		}
+		if (pathAtRef !== relativePath) {
+			vscode.window.showInformationMessage(`Linking to ${pathAtRef}, the name of the file at ${refName}.`);
+		}
+		const filePathAtRef = path.join(repoInfo.rootPath, pathAtRef);
+
+		if (location.notebook) {
+			openLink(buildGitHubPathUrl(target.repoInfo, filePathAtRef, false, target.ref));
+			return;
+		}
+
+		const lines = getSelectionLines(editor.selection);
+		const linkTarget = await remapLinesToRemote(target.repoInfo, editor.document, filePathAtRef, {
+			ref: target.ref,
+			startLine: lines.start + 1,
+			endLine: lines.end + 1
+		});
+		if (!linkTarget) {
+			return;
+		}
+		openLink(buildGitHubUrl(target.repoInfo, filePathAtRef, linkTarget.startLine, linkTarget.endLine, linkTarget.ref));
+	} catch (error) {
+		vscode.window.showErrorMessage(`Error: ${error instanceof Error ? error.message : String(error)}`);
+	}
+}
+
+// The repository and ref to link a picked ref at. Branches of another remote link to that remote; local
+// branches that were never pushed, tags of unpushed commits and unpushed commits go through resolvePushedCommit.
+async function resolveRefTarget(context: vscode.ExtensionContext, filePath: string, repoInfo: RepoInfo, gitRef: GitRef): Promise<{ repoInfo: RepoInfo; ref: string } | undefined> {
+	switch (gitRef.kind) {
+		case 'tag':
+			if (await isCommitPushed(repoInfo.rootPath, gitRef.commit)) {
+				return { repoInfo, ref: gitRef.name };
+			}
+			break;
+		case 'branch':
+			if (await getRemoteTrackingRef(repoInfo.rootPath, repoInfo.remoteName, gitRef.name)) {
+				return { repoInfo, ref: gitRef.name };
+			}
+			break;
+		case 'remote': {
+			// Remote names can contain slashes too, so the longest matching one wins
+			const remoteName = (await getHostedRemotes(repoInfo.rootPath, getRepoInfoOptions(context)))
+				.map(remote => remote.name)
+				.filter(name => gitRef.name.startsWith(`${name}/`))
+				.sort((a, b) => b.length - a.length)[0];
+			const remoteRepo = remoteName === repoInfo.remoteName
+				? repoInfo
+				: remoteName && await getRepoInfo(filePath, { ...getRepoInfoOptions(context), remoteName });
+			if (remoteName && remoteRepo && remoteRepo.remoteName === remoteName) {
+				return { repoInfo: remoteRepo, ref: gitRef.name.slice(remoteName.length + 1) };
+			}
+			break;
+		}
+	}
+
+	const commit = await resolvePushedCommit(repoInfo, gitRef.commit);
+	return commit ? { repoInfo, ref: commit } : undefined;
+}
+
+// Opens the current branch compared with its base, or the form creating a pull request for it. The base
+// branch is the compareBase setting or the default branch of the remote links use; with preferredRemotes
+// listing the parent repository first, branches pushed to a fork are compared as owner:branch.
+async function openCompare(context: vscode.ExtensionContext, pullRequest: boolean): Promise<void> {
+	const uri = vscode.window.activeTextEditor?.document.uri ?? vscode.workspace.workspaceFolders?.[0]?.uri;
+	const location = uri && getDocumentLocation(uri);
+	if (!location) {
+		vscode.window.showErrorMessage('Open a file in a git repository to compare its branch');
+		return;
+	}
+
+	try {
+		const baseRepo = await getRepoInfoOrNotify(context, location.filePath);
+		if (!baseRepo) {
+			return;
+		}
+
+		const headRepo = await findPushedBranch(context, location.filePath, baseRepo);
+		if (!headRepo) {
+			showRepoFailure('unpushed', 'The current branch has not been pushed, push it before comparing it or creating a pull request.', baseRepo.rootPath);
+			return;
+		}
+
+		const base = vscode.workspace.getConfiguration('open-in-github-simple').get<string>('compareBase', '')
+			|| await getRemoteDefaultBranch(baseRepo.rootPath, baseRepo.remoteName);
+		if (!base) {
+			const choice = await vscode.window.showErrorMessage(
+				`The default branch of ${baseRepo.remoteName} is unknown. Set the compareBase setting or run "git remote set-head ${baseRepo.remoteName} --auto".`,
+				OPEN_SETTINGS
+			);
+			if (choice === OPEN_SETTINGS) {
+				await vscode.commands.executeCommand('workbench.action.openSettings', 'open-in-github-simple.compareBase');
+			}
+			return;
+		}
+		if (headRepo.remoteUrl === baseRepo.remoteUrl && headRepo.branch === base) {
+			vscode.window.showInformationMessage(`${base} is the base branch, there is nothing to compare it with.`);
+			return;
+		}
+
+		const url = buildGitHubCompareUrl(baseRepo, base, headRepo, pullRequest);
+		if (!url) {
+			vscode.window.showErrorMessage(`${headRepo.remoteName} and ${baseRepo.remoteName} are on different hosts and cannot be compared`);
+			return;
+		}
+		openLink(url);
+	} catch (error) {
+		vscode.window.showErrorMessage(`Error: ${error instanceof Error ? error.message : String(error)}`);
+	}
+}
+
+// The repository information for a remote the current branch was pushed to: the remote it tracks
+// first, then the one links use, then any other
+async function findPushedBranch(context: vscode.ExtensionContext, filePath: string, repoInfo: RepoInfo): Promise<RepoInfo | null> {
+	const options = getRepoInfoOptions(context);
+	const isPushed = (candidate: RepoInfo | null) => candidate?.branchSource === 'remote' || candidate?.branchSource === 'upstream';
+
+	// Without a chosen remote or preferences getRepoInfo picks the tracked remote, falling back to origin
+	const tracked = await getRepoInfo(filePath, { ...options, getChosenRemote: undefined, preferredRemotes: [], pickRemote: undefined });
+	if (isPushed(tracked)) {
+		return tracked;
+	}
+	if (isPushed(repoInfo)) {
+		return repoInfo;
+	}
+
+	for (const remote of await getHostedRemotes(repoInfo.rootPath, options)) {
+		if (remote.name === tracked?.remoteName || remote.name === repoInfo.remoteName) {
+			continue;
+		}
+		const candidate = await getRepoInfo(filePath, { ...options, remoteName: remote.name });
+		if (isPushed(candidate)) {
+			return candidate;
+		}
+	}
+	return null;
+}
+
+// Shows who owns the active file, or the files selected in the Explorer, according to CODEOWNERS. Picking
+// an owner opens their user or team page; picking the rule opens the CODEOWNERS line that matched.
+async function showCodeOwners(context: vscode.ExtensionContext, uris: vscode.Uri[]): Promise<void> {
+	const editor = vscode.window.activeTextEditor;
+	const targets = uris.length > 0 ? uris : editor ? [editor.document.uri] : [];
+	if (targets.length === 0) {
+		vscode.window.showErrorMessage('No active editor found');
+		return;
+	}
+
+	const items: (vscode.QuickPickItem & { url?: string | null })[] = [];
+	for (const uri of targets) {
+		const filePath = getDocumentLocation(uri)?.filePath;
+		const repoInfo = filePath && await getRepoInfoOrNotify(context, filePath);
+		if (!filePath || !repoInfo) {
+			continue;
+		}
+
+		const relativePath = getRelativePath(repoInfo, filePath);
+		if (targets.length > 1) {
+			items.push({ label: relativePath || path.basename(repoInfo.rootPath), kind: vscode.QuickPickItemKind.Separator });
+		}
+
+		const codeowners = await readCodeowners(repoInfo.rootPath);
+		if (!codeowners) {
+			items.push({ label: '$(info) No CODEOWNERS file', description: `${path.basename(repoInfo.rootPath)} has none in .github/, the root or docs/` });
+			continue;
+		}
+
+		const rule = findCodeownersRule(codeowners.rules, relativePath);
+		if (!rule || rule.owners.length === 0) {
+			items.push({ label: '$(circle-slash) No owners', description: rule ? 'The matching rule lists no owners' : 'No rule matches' });
+		}
+		for (const owner of rule?.owners ?? []) {
+			const icon = owner.includes('/') ? '$(organization)' : owner.startsWith('@') ? '$(person)' : '$(mail)';
+			items.push({ label: `${icon} ${owner}`, url: getOwnerUrl(repoInfo, owner) });
+		}
+		if (rule) {
+			items.push({
+				label: `$(go-to-file) ${codeowners.path}:${rule.line}`,
+				description: rule.pattern,
+				url: buildGitHubUrl(repoInfo, path.join(repoInfo.rootPath, codeowners.path), rule.line)
+			});
+		}
+	}
+	if (items.length === 0) {
+		return;
+	}
+
+	const picked = await vscode.window.showQuickPick(items, { placeHolder: 'Code owners: select an owner or the CODEOWNERS rule to open it' });
+	if (picked?.url) {
+		openLink(picked.url);
+	}
+}
+
+// Opens the local file a GitHub link points to and selects its lines. The link is taken from the
+// argument, the clipboard, or an input box, in that order.
+async function openFromGitHubUrl(context: vscode.ExtensionContext, url?: string): Promise<void> {
+	if (url === undefined) {
+		const clipboard = await vscode.env.clipboard.readText();
+		url = parseGitHubFileUrl(clipboard) ? clipboard : await vscode.window.showInputBox({
+			prompt: 'GitHub link to a file',
+			placeHolder: 'https://github.com/owner/repo/blob/main/src/file.ts#L10-L20',
+			validateInput: value => parseGitHubFileUrl(value) ? undefined : 'Enter a GitHub blob or blame link'
+		});
+		if (url === undefined) {
+			return;
+		}
+	}
+
+	const link = parseGitHubFileUrl(url);
+	if (!link) {
+		vscode.window.showErrorMessage('Not a GitHub link to a file');
+		return;
+	}
+
+	try {
+		// Find the workspace repository with a remote pointing at the linked repository
+		let match: { rootPath: string; remoteName: string } | undefined;
+		for (const folder of vscode.workspace.workspaceFolders ?? []) {
+			const rootPath = await getGitRootPath(folder.uri.fsPath);
+			const remote = rootPath && (await getHostedRemotes(rootPath, getRepoInfoOptions(context)))
+				.find(candidate => candidate.url.toLowerCase() === link.webUrl.toLowerCase());
+			if (rootPath && remote) {
+				match = { rootPath, remoteName: remote.name };
+				break;
+			}
+		}
+		if (!match) {
+			vscode.window.showErrorMessage(`No repository in the workspace has a remote for ${link.webUrl}`);
+			return;
+		}
+
+		const resolved = await resolveRefAndPath(match.rootPath, match.remoteName, link.segments);
+		if (!resolved) {
+			vscode.window.showErrorMessage(`The ref in the link was not found in ${path.basename(match.rootPath)}. Try fetching from ${match.remoteName}.`);
+			return;
+		}
+
+		const fileUri = vscode.Uri.file(path.join(match.rootPath, ...resolved.path.split('/')));
+		let documentUri = fileUri;
+		let startLine = link.startLine;
+		let endLine = link.endLine;
+
+		// The checked-out file may not match the linked revision
+		if (resolved.commit !== await getHeadCommit(match.rootPath)) {
+			const openRevision = 'Open Revision (Read-Only)';
+			const openLocal = 'Open Local File';
+			const choice = await vscode.window.showInformationMessage(
+				`The link points to ${resolved.ref}, which is not checked out.`,
+				openRevision,
+				openLocal
+			);
+			if (choice === openRevision) {
+				documentUri = fileUri.with({ scheme: REVISION_SCHEME, query: JSON.stringify({ root: match.rootPath, ref: resolved.commit }) });
+			} else if (choice === openLocal) {
+				// Follow the linked lines to where they are in the local file
+				const remoteText = await getFileAtRef(match.rootPath, resolved.commit, resolved.path);
+				const localText = remoteText !== null && startLine !== undefined
+					? new TextDecoder().decode(await vscode.workspace.fs.readFile(fileUri))
+					: null;
+				const mapping = remoteText !== null && localText !== null ? computeLineMapping(splitLines(localText), splitLines(remoteText)) : null;
+				const mapped = mapping && startLine !== undefined && endLine !== undefined
+					? mapRange(mapping, { start: startLine - 1, end: endLine - 1 })
+					: null;
+				if (mapped) {
+					startLine = mapped.start + 1;
+					endLine = mapped.end + 1;
+				}
+			} else {
+				return;
+			}
+		}
+
+		const selection = startLine !== undefined && endLine !== undefined
+			? new vscode.Range(startLine - 1, 0, endLine - 1, Number.MAX_SAFE_INTEGER)
+			: undefined;
+		await vscode.window.showTextDocument(documentUri, { selection });
+	} catch (error) {
+		vscode.window.showErrorMessage(`Error: ${error instanceof Error ? error.message : String(error)}`);
+	}
+}
+
+// Makes sure the commit can be viewed on GitHub, offering the newest pushed ancestor when it can't.
+// Returns undefined when the user cancels.
+async function resolvePushedCommit(repoInfo: RepoInfo, commit: string): Promise<string | undefined> {
+	if (await isCommitPushed(repoInfo.rootPath, commit)) {
+		return commit;
+	}
+
+	const shortCommit = commit.slice(0, 7);
+	const ancestor = await getNewestPushedAncestor(repoInfo.rootPath, commit);
+	const useAncestor = 'Use Pushed Ancestor';
+	const openAnyway = 'Open Anyway';
+	const actions = ancestor ? [useAncestor, openAnyway] : [openAnyway];
+
+	const choice = await vscode.window.showWarningMessage(
+		`Commit ${shortCommit} has not been pushed to any remote, so the link will 404 on GitHub.`,
+		...actions
+	);
+
+	if (choice === useAncestor && ancestor) {
+		return ancestor;
+	}
+	return choice === openAnyway ? commit : undefined;
+}
+
+// Translates the editor's line range to the lines of the file at the linked ref, so unsaved edits
+// and unpushed commits don't shift the highlight. Returns undefined when the user cancels.
+async function remapLinesToRemote(repoInfo: RepoInfo, document: vscode.TextDocument, filePath: string, target: LinkTarget): Promise<LinkTarget | undefined> {
+	if (!vscode.workspace.getConfiguration('open-in-github-simple').get<boolean>('remapLines', true)) {
+		return target;
+	}
+
+	const relativePath = path.relative(repoInfo.rootPath, filePath).replace(/\\/g, '/');
+
+	// Branches are compared with what was last fetched from the remote, falling back to the local branch
+	const compareRef = isCommitSha(target.ref)
+		? target.ref
+		: await getRemoteTrackingRef(repoInfo.rootPath, repoInfo.remoteName, target.ref) ?? target.ref;
+	const remoteText = await getFileAtRef(repoInfo.rootPath, compareRef, relativePath);
+	if (remoteText === null) {
+		return target;
+	}
+
+	const localLines = splitLines(document.getText());
+	const mapping = computeLineMapping(splitLines(remoteText), localLines);
+	if (!mapping) {
+		return target;
+	}
+
+	const range = { start: target.startLine - 1, end: target.endLine - 1 };
+	const mapped = mapRange(mapping, range);
+	if (mapped) {
+		return { ref: target.ref, startLine: mapped.start + 1, endLine: mapped.end + 1 };
+	}
+
+	// None of the selected lines exist remotely. The newest pushed commit of HEAD's history may still contain
+	// them, e.g. when they were pushed to another branch; an unpushed HEAD would only link to a 404.
+	let commitTarget: LinkTarget | undefined;
+	const pushedCommit = repoInfo.commit && (await isCommitPushed(repoInfo.rootPath, repoInfo.commit)
+		? repoInfo.commit
+		: await getNewestPushedAncestor(repoInfo.rootPath, repoInfo.commit));
+	if (pushedCommit && pushedCommit !== target.ref) {
+		const commitText = await getFileAtRef(repoInfo.rootPath, pushedCommit, relativePath);
+		const commitMapping = commitText !== null ? computeLineMapping(splitLines(commitText), localLines) : null;
+		const commitRange = commitMapping ? mapRange(commitMapping, range) : null;
+		if (commitRange) {
+			commitTarget = { ref: pushedCommit, startLine: commitRange.start + 1, endLine: commitRange.end + 1 };
+		}
+	}
+
+	const nearest = findNearestMappedLine(mapping, range.start);
+	const linkNearest = 'Link to Nearest Lines';
+	const linkCommit = `Link to Commit ${commitTarget?.ref.slice(0, 7)}`;
+	const actions = [
+		...(nearest !== null ? [linkNearest] : []),
+		...(commitTarget ? [linkCommit] : [])
+	];
+
+	const choice = await vscode.window.showWarningMessage(
+		`The selected lines don't exist on ${isCommitSha(target.ref) ? target.ref.slice(0, 7) : target.ref} in the remote repository.`,
+		...actions
+	);
+
+	if (choice === linkNearest && nearest !== null) {
+		return { ref: target.ref, startLine: nearest + 1, endLine: nearest + 1 };
+	}
+	return choice === linkCommit ? commitTarget : undefined;
 }
 
 // This method is called when your extension is deactivated
-export function deactivate() {}
+export function deactivate() {
+	disposeLog();
+}
@@ -0,0 +1,65 @@
+export type LinkFormat = 'url' | 'markdown' | 'markdownSnippet' | 'html';
+
+export interface LinkValues {
+    url: string;
+    path: string;
+    // Omitted when linking a whole file or folder
+    startLine?: number;
+    endLine?: number;
+    code?: string;
+    languageId?: string;
+}
+
+// Used when the matching open-in-github-simple.copyFormat.* setting is not set
+export const DEFAULT_TEMPLATES: Record<LinkFormat, string> = {
+    url: '${url}',
+    markdown: '[${path}#${lines}](${url})',
+    markdownSnippet: '[${path}#${lines}](${url})\n\n```${language}\n${code}\n```',
+    html: '<a href="${url}">${path}#${lines}</a>'
+};
+
+// VS Code language ids that differ from the info string GitHub highlights in fenced code blocks
+const FENCE_LANGUAGES: Record<string, string> = {
+    typescriptreact: 'tsx',
+    javascriptreact: 'jsx',
+    shellscript: 'sh',
+    plaintext: ''
+};
+
+export function getFenceLanguage(languageId: string | undefined): string {
+    if (!languageId) {
+        return '';
+    }
+    return Object.hasOwn(FENCE_LANGUAGES, languageId) ? FENCE_LANGUAGES[languageId] : languageId;
+}
+
+export function formatLineRange(startLine: number, endLine: number): string {
+    return endLine !== startLine ? `L${startLine}-L${endLine}` : `L${startLine}`;
+}
+
+// For values placed in HTML templates, so paths with &, < or quotes don't break the markup
+export function escapeHtml(value: string): string {
+    return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&#39;');
+}
+
+// escape is applied to every value, not to the template itself
+export function formatLink(template: string, values: LinkValues, escape: (value: string) => string = value => value): string {
+    const { startLine, endLine = startLine } = values;
+    if (startLine === undefined) {
+        // Without lines, "${path}#${lines}" becomes just the path
+        template = template.replace(/#\$\{lines\}/g, '${lines}');
+    }
+
+    const variables: Record<string, string> = {
+        url: values.url,
+        path: values.path,
+        lines: startLine !== undefined ? formatLineRange(startLine, endLine ?? startLine) : '',
+        startLine: startLine !== undefined ? String(startLine) : '',
+        endLine: endLine !== undefined ? String(endLine) : '',
+        code: values.code ?? '',
+        language: getFenceLanguage(values.languageId)
+    };
+
+    // Unknown variables are left as-is so typos in the setting are easy to spot
+    return template.replace(/\$\{(\w+)\}/g, (match, name: string) => Object.hasOwn(variables, name) ? escape(variables[name]) : match);
+}
@@ -1,100 +1,409 @@
 import * as cp from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
 import * as path from 'path';
 import * as vscode from 'vscode';
+import { getRefCandidates } from './githubUrl';
+import { getLog } from './log';
+import { ProviderId, getProvider } from './providers';
+import { InsteadOfRule, RemoteUrlOptions, normalizeRemoteUrl, parseInsteadOfRules } from './remote';
 
 export interface RepoInfo {
+    provider: ProviderId;
+    remoteName: string;
     remoteUrl: string;
+    // The ref links point to, which is not always the checked-out branch (see resolveBranch)
     branch: string;
+    branchSource: BranchSource;
+    commit: string | null;
     rootPath: string;
 }
 
-export async function getRepoInfo(filePath: string): Promise<RepoInfo | null> {
+// Why RepoInfo.branch was chosen:
+// - remote: the current branch exists on the remote
+// - upstream: the current branch tracks a remote branch with another name
+// - default: the current branch was never pushed, so the remote's default branch is used
+// - local: the current branch was never pushed and the remote's default branch is unknown
+// - detached: HEAD is detached, so the commit is used
+// - unborn: the repository has no commits yet
+// - pinned: the repository is a submodule and the commit its superproject records is used (pinSubmodules)
+export type BranchSource = 'remote' | 'upstream' | 'default' | 'local' | 'detached' | 'unborn' | 'pinned';
+
+// Why getRepoInfo could not link a file:
+// - gitNotFound: the git executable could not be run
+// - notRepository: the file is not inside a git repository
+// - noRemote: the repository has no remotes
+// - unsupportedRemote: none of the remotes is on a supported host
+// - noRemoteSelected: several remotes could be used and none was chosen
+// - noHead: HEAD is neither a branch nor a commit
+// - unpushed: the ref to link to does not exist on the remote (reported by callers, see BranchSource 'local')
+// - gitError: a git command failed unexpectedly
+export type RepoFailureReason = 'gitNotFound' | 'notRepository' | 'noRemote' | 'unsupportedRemote' | 'noRemoteSelected' | 'noHead' | 'unpushed' | 'gitError';
+
+// rootPath is the repository the failure is about, once it was found
+export class RepoInfoError extends Error {
+    constructor(readonly reason: RepoFailureReason, message: string, readonly rootPath?: string) {
+        super(message);
+        this.name = 'RepoInfoError';
+    }
+}
+
+export interface GitRemote {
+    name: string;
+    provider: ProviderId;
+    url: string;
+}
+
+// The page a link opens. For 'commit' the ref is the commit to show.
+export type ViewKind = 'blob' | 'blame' | 'history' | 'raw' | 'commit';
+
+// The commit that last changed a line, with the file's path and line number in that commit
+export interface BlamedLine {
+    commit: string;
+    filePath: string;
+    line: number;
+}
+
+// A branch, remote-tracking branch, tag or commit a file can be linked at
+export interface GitRef {
+    kind: 'branch' | 'remote' | 'tag' | 'commit';
+    // The short name, e.g. main, origin/release/2.3 or v1.4.0, or the SHA of a commit
+    name: string;
+    // What git resolves unambiguously: the full ref name (refs/tags/v1.4.0) or the SHA
+    ref: string;
+    commit: string;
+    subject: string;
+    // When the commit was made, relative to now, e.g. "3 days ago"
+    date: string;
+}
+
+// What getRepoInfo needs to know about a repository, read from the vscode.git API (see repoState.ts)
+// or from the git CLI by readRepoState
+export interface RepoState {
+    rootPath: string;
+    // HEAD's commit, null when the repository has no commits yet
+    commit: string | null;
+    // The checked-out branch, the commit when HEAD is detached, or the branch HEAD points to when unborn
+    branch: string | null;
+    // The remote the branch tracks and the branch it merges from there, without refs/heads/
+    upstreamRemote: string | null;
+    upstreamBranch: string | null;
+    // Remote names and URLs as configured, before insteadOf rules are applied
+    remotes: { name: string; url: string }[];
+    insteadOf: InsteadOfRule[];
+    // Set by callers that cache the state, so what getRepoInfo works out from it is cached and cleared along with it
+    derived?: DerivedRepoState;
+}
+
+// What getRepoInfo reads with further git commands once it has a repository's state
+export interface DerivedRepoState {
+    // The ref links point to, per remote name (see resolveBranch)
+    branches: Map<string, Promise<{ branch: string; source: BranchSource }>>;
+    // The superproject's working tree, null when the repository is not a submodule
+    superprojectPath: Promise<string | null>;
+    pinnedCommit?: Promise<string | null>;
+}
+
+export function createDerivedRepoState(rootPath: string): DerivedRepoState {
+    return { branches: new Map(), superprojectPath: getSuperprojectPath(rootPath) };
+}
+
+export interface RepoInfoOptions {
+    // The remote to use, skipping every other rule; getRepoInfo fails when it isn't a hosted remote
+    remoteName?: string;
+    // Remote names to use, in order of preference, when the repository has them
+    preferredRemotes?: string[];
+    // The remote chosen for a repository with the Choose Remote command, which wins over every other rule
+    getChosenRemote?: (rootPath: string) => string | undefined;
+    // Called when several hosted remotes remain after applying the preferences
+    pickRemote?: (remotes: GitRemote[], rootPath: string) => Promise<GitRemote | undefined>;
+    // Hostnames of self-hosted instances mapped to the provider that serves them
+    providerHosts?: Record<string, ProviderId>;
+    // Hostnames mapped to the web base URL of an enterprise instance
+    enterpriseHosts?: Record<string, string>;
+    // Contents of the SSH client config, read from ~/.ssh/config when not given
+    sshConfig?: string;
+    // Link files in submodules to the commit the superproject pins rather than the submodule's branch
+    pinSubmodules?: boolean;
+    // Supplies the state of the repository containing a file, e.g. from a cache. Without it,
+    // or when it returns null, the state is read with the git CLI.
+    getRepoState?: (filePath: string) => Promise<RepoState | null>;
+    // Told why no repository information could be returned
+    onFailure?: (error: RepoInfoError) => void;
+}
+
+export async function getRepoInfo(filePath: string, options: RepoInfoOptions = {}): Promise<RepoInfo | null> {
     try {
-        const rootPath = await getGitRootPath(filePath);
-        if (!rootPath) {
-            const error = new Error('Not a git repository');
-            console.error(`Failed to get git repository information: ${error.message}`);
-            throw error;
+        const state = await options.getRepoState?.(filePath) ?? await readRepoStateForFile(filePath);
+        if (!state) {
+            // rev-parse fails the same way when git itself is missing
+            if (!await isGitInstalled()) {
+                throw new RepoInfoError('gitNotFound', 'Git was not found: install it and make sure it is on the PATH VS Code starts with');
+            }
+            throw new RepoInfoError('notRepository', `${path.basename(filePath)} is not in a git repository`);
         }
 
-        const remoteUrl = await getRemoteUrl(rootPath);
-        if (!remoteUrl) {
-            const error = new Error('No GitHub remote found');
-            console.error(`Failed to get git repository information: ${error.message}, check remote configuration`);
-            throw error;
+        // A repository without commits has no SHA to pin permalinks to
+        const { rootPath, commit, branch: localBranch } = state;
+        if (!localBranch && commit) {
+            throw new RepoInfoError('noHead', `Could not determine the current branch or commit of ${path.basename(rootPath)}`, rootPath);
         }
 
-        const branch = await getCurrentBranch(rootPath);
-        if (!branch) {
-            const error = new Error('Could not determine current branch or commit');
-            console.error(`Failed to get git repository information: ${error.message}`);
-            throw error;
+        const remotes = await normalizeRemotes(state.remotes, state.insteadOf, options);
+        if (state.remotes.length === 0) {
+            throw new RepoInfoError('noRemote', `${path.basename(rootPath)} has no remotes`, rootPath);
+        }
+        if (remotes.length === 0) {
+            const configured = state.remotes.map(remote => `${remote.name} (${remote.url})`).join(', ');
+            throw new RepoInfoError('unsupportedRemote', `None of the remotes of ${path.basename(rootPath)} is on a supported host: ${configured}`, rootPath);
         }
 
-        return { remoteUrl, branch, rootPath };
+        const remote = options.remoteName !== undefined
+            ? remotes.find(candidate => candidate.name === options.remoteName)
+            : await selectRemote(rootPath, state.upstreamRemote, remotes, options);
+        if (!remote && options.remoteName !== undefined) {
+            throw new RepoInfoError('noRemote', `${path.basename(rootPath)} has no hosted remote named ${options.remoteName}`, rootPath);
+        }
+        if (!remote) {
+            throw new RepoInfoError('noRemoteSelected', `No remote of ${path.basename(rootPath)} was chosen`, rootPath);
+        }
+
+        const { derived } = state;
+        let resolved = derived?.branches.get(remote.name);
+        if (!resolved) {
+            resolved = resolveBranch(rootPath, remote.name, localBranch, commit, {
+                remote: state.upstreamRemote,
+                branch: state.upstreamBranch
+            });
+            derived?.branches.set(remote.name, resolved);
+        }
+        let { branch, source: branchSource } = await resolved;
+
+        let pinnedCommit: string | null = null;
+        if (options.pinSubmodules) {
+            pinnedCommit = await (derived
+                ? derived.pinnedCommit ??= getSuperprojectPinnedCommit(rootPath, derived.superprojectPath)
+                : getSuperprojectPinnedCommit(rootPath));
+        }
+        if (pinnedCommit) {
+            branch = pinnedCommit;
+            branchSource = 'pinned';
+        }
+
+        return { provider: remote.provider, remoteName: remote.name, remoteUrl: remote.url, branch, branchSource, commit, rootPath };
     } catch (error) {
-        console.error(`Git error details: ${error instanceof Error ? error.message : String(error)}`);
+        const failure = error instanceof RepoInfoError
+            ? error
+            : new RepoInfoError('gitError', error instanceof Error ? error.message : String(error));
+        getLog().warn(`Could not get repository information for ${filePath}: ${failure.message}`);
+        options.onFailure?.(failure);
         return null;
     }
 }
 
-function executeCommand(command: string, cwd: string): Promise<string> {
+async function isGitInstalled(): Promise<boolean> {
+    try {
+        await executeCommand(['--version'], os.homedir());
+        return true;
+    } catch (error) {
+        return false;
+    }
+}
+
+// Runs git directly rather than through a shell, so refs and paths are passed as they are without quoting.
+// File contents must keep their leading and trailing whitespace, so trimming can be turned off.
+function executeCommand(args: string[], cwd: string, trimOutput = true): Promise<string> {
     return new Promise((resolve, reject) => {
-        cp.exec(command, { cwd }, (error, stdout, stderr) => {
+        getLog().debug(`git ${args.join(' ')} (in ${cwd})`);
+        // Raise the 1MB default so large files can be read with git show
+        cp.execFile('git', args, { cwd, maxBuffer: 16 * 1024 * 1024 }, (error, stdout, stderr) => {
             if (error) {
+                // Many commands fail on purpose, e.g. git config when nothing matches
+                getLog().info(`git ${args.join(' ')} failed: ${stderr.trim() || error.message}`);
                 reject(new Error(`Command failed: ${stderr.trim() || error.message}`));
                 return;
             }
-            resolve(stdout.trim());
+            resolve(trimOutput ? stdout.trim() : stdout);
         });
     });
 }
 
-async function getGitRootPath(filePath: string): Promise<string | null> {
+export async function getGitRootPath(filePath: string): Promise<string | null> {
     try {
-        const cwd = path.dirname(filePath);
-        const result = await executeCommand('git rev-parse --show-toplevel', cwd);
+        // Folders from the explorer are looked up from inside, files from their parent folder
+        const cwd = await isDirectory(filePath) ? filePath : path.dirname(filePath);
+        const result = await executeCommand(['rev-parse', '--show-toplevel'], cwd);
         return result;
     } catch (error) {
         return null;
     }
 }
 
-async function getRemoteUrl(repoPath: string): Promise<string | null> {
+export async function isDirectory(filePath: string): Promise<boolean> {
+    try {
+        return (await fs.promises.stat(filePath)).isDirectory();
+    } catch (error) {
+        return false;
+    }
+}
+
+// Reads what getRepoInfo needs with the git CLI: the repository root comes from
+// --show-toplevel, the rest from HEAD and the repository's config
+export async function readRepoState(rootPath: string): Promise<RepoState> {
+    const commit = await getHeadCommit(rootPath);
+    const branch = await getCurrentBranch(rootPath, commit);
+    return {
+        rootPath,
+        commit,
+        branch,
+        upstreamRemote: branch ? await getBranchConfig(rootPath, branch, 'remote') : null,
+        upstreamBranch: branch ? await getUpstreamBranch(rootPath, branch) : null,
+        remotes: await getConfiguredRemotes(rootPath),
+        insteadOf: await getInsteadOfRules(rootPath)
+    };
+}
+
+async function readRepoStateForFile(filePath: string): Promise<RepoState | null> {
+    const rootPath = await getGitRootPath(filePath);
+    return rootPath ? readRepoState(rootPath) : null;
+}
+
+// The git directory holds HEAD; the common directory, shared by linked worktrees, holds the config and branches
+export async function getGitDirectories(rootPath: string): Promise<{ gitDir: string; commonDir: string } | null> {
     try {
-        // Try to get the origin remote URL
-        const remoteUrl = await executeCommand('git config --get remote.origin.url', repoPath);
-        return normalizeGitHubUrl(remoteUrl);
+        const [gitDir, commonDir] = (await executeCommand(['rev-parse', '--absolute-git-dir', '--git-common-dir'], rootPath)).split('\n');
+        return { gitDir, commonDir: path.resolve(rootPath, commonDir) };
     } catch (error) {
         return null;
     }
 }
 
-async function getCurrentBranch(repoPath: string): Promise<string | null> {
+async function getConfiguredRemotes(repoPath: string): Promise<{ name: string; url: string }[]> {
     try {
-        // Check if repository has commits
-        try {
-            // This will fail if there are no commits
-            await executeCommand('git rev-parse HEAD', repoPath);
-        } catch (error) {
-            // No commits yet, we can try to get the branch name from the symbolic ref
-            try {
-                const symbolicRef = await executeCommand('git symbolic-ref --short HEAD', repoPath);
-                return symbolicRef; // Usually 'main' or 'master' for a new repo
-            } catch (innerError) {
-                // Still failed, return default branch
-                return 'main';
+        // Lines look like "remote.origin.url git@github.com:username/repo.git"
+        const output = await executeCommand(['config', '--get-regexp', '^remote\\..*\\.url$'], repoPath);
+        const remotes: { name: string; url: string }[] = [];
+        for (const line of output.split('\n')) {
+            const match = line.match(/^remote\.(.+)\.url (.+)$/);
+            if (match) {
+                remotes.push({ name: match[1], url: match[2] });
+            }
+        }
+        return remotes;
+    } catch (error) {
+        return [];
+    }
+}
+
+export async function getHostedRemotes(repoPath: string, options: RepoInfoOptions = {}): Promise<GitRemote[]> {
+    return normalizeRemotes(await getConfiguredRemotes(repoPath), await getInsteadOfRules(repoPath), options);
+}
+
+// Keeps the remotes on a supported host, with their URLs turned into repository web pages
+async function normalizeRemotes(configured: { name: string; url: string }[], insteadOf: InsteadOfRule[], options: RepoInfoOptions): Promise<GitRemote[]> {
+    const remoteUrlOptions: RemoteUrlOptions = {
+        providerHosts: options.providerHosts,
+        enterpriseHosts: options.enterpriseHosts,
+        insteadOf,
+        sshConfig: options.sshConfig ?? await readSshConfig()
+    };
+
+    const remotes: GitRemote[] = [];
+    for (const { name, url } of configured) {
+        const normalized = normalizeRemoteUrl(url, remoteUrlOptions);
+        if (normalized) {
+            remotes.push({ name, ...normalized });
+        }
+    }
+    return remotes;
+}
+
+export async function getInsteadOfRules(repoPath: string): Promise<InsteadOfRule[]> {
+    try {
+        const output = await executeCommand(['config', '--get-regexp', '^url\\..*\\.insteadof$'], repoPath);
+        return parseInsteadOfRules(output);
+    } catch (error) {
+        // git config exits with an error when nothing matches
+        return [];
+    }
+}
+
+async function readSshConfig(): Promise<string> {
+    try {
+        return await fs.promises.readFile(path.join(os.homedir(), '.ssh', 'config'), 'utf8');
+    } catch (error) {
+        return '';
+    }
+}
+
+async function getBranchConfig(repoPath: string, branch: string, key: 'remote' | 'merge'): Promise<string | null> {
+    try {
+        // Read every branch.<name>.<key> entry rather than escaping the branch name into a pattern
+        const output = await executeCommand(['config', '--get-regexp', `^branch\\..*\\.${key}$`], repoPath);
+        for (const line of output.split('\n')) {
+            const separator = line.lastIndexOf(' ');
+            if (separator !== -1 && line.slice(0, separator) === `branch.${branch}.${key}`) {
+                return line.slice(separator + 1);
             }
         }
+        return null;
+    } catch (error) {
+        // git config exits with an error when nothing matches
+        return null;
+    }
+}
+
+// branch.<name>.merge holds the full ref on the remote, e.g. refs/heads/main
+async function getUpstreamBranch(repoPath: string, branch: string): Promise<string | null> {
+    const merge = await getBranchConfig(repoPath, branch, 'merge');
+    return merge?.startsWith('refs/heads/') ? merge.slice('refs/heads/'.length) : null;
+}
+
+async function selectRemote(repoPath: string, branchRemoteName: string | null, remotes: GitRemote[], options: RepoInfoOptions): Promise<GitRemote | undefined> {
+    // 1. The remote chosen for this repository
+    const chosenName = options.getChosenRemote?.(repoPath);
+    const chosen = chosenName !== undefined ? remotes.find(remote => remote.name === chosenName) : undefined;
+    if (chosen) {
+        return chosen;
+    }
+
+    // 2. Then an explicitly preferred remote
+    for (const name of options.preferredRemotes ?? []) {
+        const preferred = remotes.find(remote => remote.name === name);
+        if (preferred) {
+            return preferred;
+        }
+    }
+
+    // 3. Then the remote the current branch tracks
+    const branchRemote = remotes.find(remote => remote.name === branchRemoteName);
+    if (branchRemote) {
+        return branchRemote;
+    }
+
+    // 4. Nothing to choose between
+    if (remotes.length === 1 || !options.pickRemote) {
+        return remotes.find(remote => remote.name === 'origin') ?? remotes[0];
+    }
+
+    // 5. Let the caller decide
+    return options.pickRemote(remotes, repoPath);
+}
+
+async function getCurrentBranch(repoPath: string, commit: string | null): Promise<string | null> {
+    try {
+        if (!commit) {
+            // No commits yet, we can try to get the branch name from the symbolic ref
+            return await executeCommand(['symbolic-ref', '--short', 'HEAD'], repoPath);
+        }
         
         // Try to get the current branch name
-        const branch = await executeCommand('git rev-parse --abbrev-ref HEAD', repoPath);
+        const branch = await executeCommand(['rev-parse', '--abbrev-ref', 'HEAD'], repoPath);
         
         // Handle detached HEAD state
         if (branch === 'HEAD') {
-            // We're in a detached HEAD state, get the commit hash instead
-            const commitHash = await executeCommand('git rev-parse HEAD', repoPath);
-            return commitHash;
+            // We're in a detached HEAD state, use the commit hash instead
+            return commit;
         }
         
         return branch;
@@ -103,39 +412,362 @@ async function getCurrentBranch(repoPath: string): Promise<string | null> {
     }
 }
 
-function normalizeGitHubUrl(remoteUrl: string): string | null {
-    // Handle different GitHub URL formats
-    
-    // 1. Handle SSH format: git@github.com:username/repo.git
-    if (remoteUrl.startsWith('git@github.com:')) {
-        // Convert SSH format to HTTPS format
-        const sshPath = remoteUrl.slice('git@github.com:'.length);
-        const repoPath = sshPath.endsWith('.git') ? sshPath.slice(0, -4) : sshPath;
-        return `https://github.com/${repoPath}`;
-    } 
-    // 2. Handle HTTPS format: https://github.com/username/repo.git
-    else if (remoteUrl.includes('github.com')) {
-        // Just remove .git suffix if it exists
-        return remoteUrl.endsWith('.git') ? remoteUrl.slice(0, -4) : remoteUrl;
+// Picks the ref to link to using only local refs, so no network access is needed. The branch's
+// upstream is read from the config unless the caller already knows it.
+export async function resolveBranch(
+    repoPath: string,
+    remoteName: string,
+    localBranch: string | null,
+    commit: string | null,
+    upstream?: { remote: string | null; branch: string | null }
+): Promise<{ branch: string; source: BranchSource }> {
+    // 1. A detached HEAD links to the commit itself
+    if (commit && localBranch === commit) {
+        return { branch: commit, source: 'detached' };
+    }
+
+    // 2. Without commits nothing exists remotely yet: prefer the remote's default branch,
+    // then the name HEAD points to, then 'main'
+    if (!commit || !localBranch) {
+        const branch = await getRemoteDefaultBranch(repoPath, remoteName) ?? localBranch ?? 'main';
+        return { branch, source: 'unborn' };
+    }
+
+    // 3. The branch was pushed under its own name
+    if (await getRemoteTrackingRef(repoPath, remoteName, localBranch)) {
+        return { branch: localBranch, source: 'remote' };
+    }
+
+    // 4. The branch tracks a branch with another name on this remote
+    const { remote: upstreamRemote, branch: upstreamBranch } = upstream ?? {
+        remote: await getBranchConfig(repoPath, localBranch, 'remote'),
+        branch: await getUpstreamBranch(repoPath, localBranch)
+    };
+    if (upstreamRemote === remoteName && upstreamBranch) {
+        if (await getRemoteTrackingRef(repoPath, remoteName, upstreamBranch)) {
+            return { branch: upstreamBranch, source: 'upstream' };
+        }
+    }
+
+    // 5. The branch was never pushed, so fall back to the remote's default branch
+    const defaultBranch = await getRemoteDefaultBranch(repoPath, remoteName);
+    if (defaultBranch) {
+        return { branch: defaultBranch, source: 'default' };
+    }
+
+    // 6. Nothing better is known locally, the link may 404
+    return { branch: localBranch, source: 'local' };
+}
+
+export async function getRemoteDefaultBranch(repoPath: string, remoteName: string): Promise<string | null> {
+    try {
+        // Set by git clone and `git remote set-head`, e.g. refs/remotes/origin/main
+        const ref = await executeCommand(['symbolic-ref', '--quiet', `refs/remotes/${remoteName}/HEAD`], repoPath);
+        const prefix = `refs/remotes/${remoteName}/`;
+        return ref.startsWith(prefix) ? ref.slice(prefix.length) : null;
+    } catch (error) {
+        return null;
+    }
+}
+
+// The commit the superproject records for the submodule at repoPath, or null when it is not a submodule.
+// rootPath always comes from --show-toplevel, so submodules, worktrees and nested repositories each
+// resolve to their own root, remotes and branch; only this lookup crosses into the enclosing repository.
+export async function getSuperprojectPinnedCommit(repoPath: string, superproject: Promise<string | null> = getSuperprojectPath(repoPath)): Promise<string | null> {
+    try {
+        const superprojectPath = await superproject;
+        if (!superprojectPath) {
+            return null;
+        }
+
+        // The gitlink entry in the superproject's HEAD tree holds the pinned commit
+        const submodulePath = path.relative(superprojectPath, repoPath).replace(/\\/g, '/');
+        return await executeCommand(['rev-parse', `HEAD:${submodulePath}`], superprojectPath);
+    } catch (error) {
+        return null;
+    }
+}
+
+export async function getSuperprojectPath(repoPath: string): Promise<string | null> {
+    try {
+        return await executeCommand(['rev-parse', '--show-superproject-working-tree'], repoPath) || null;
+    } catch (error) {
+        return null;
+    }
+}
+
+export async function getHeadCommit(repoPath: string): Promise<string | null> {
+    try {
+        return await executeCommand(['rev-parse', 'HEAD'], repoPath);
+    } catch (error) {
+        return null;
+    }
+}
+
+export async function getRemoteTrackingRef(repoPath: string, remoteName: string, branch: string): Promise<string | null> {
+    try {
+        // Resolves from the local remote-tracking refs, so no network access is needed
+        const ref = `refs/remotes/${remoteName}/${branch}`;
+        await executeCommand(['rev-parse', '--verify', '--quiet', ref], repoPath);
+        return ref;
+    } catch (error) {
+        return null;
+    }
+}
+
+// Finds where the ref ends in the segments of a web URL by checking which prefix names a commit,
+// preferring the remote's branches so the file is read as it is on the remote
+export async function resolveRefAndPath(repoPath: string, remoteName: string, segments: string[]): Promise<{ ref: string; path: string; commit: string } | null> {
+    for (const candidate of getRefCandidates(segments)) {
+        if (candidate.ref.startsWith('-')) {
+            continue;
+        }
+        for (const ref of [`refs/remotes/${remoteName}/${candidate.ref}`, candidate.ref]) {
+            const commit = await resolveCommit(repoPath, ref);
+            if (commit) {
+                return { ref: candidate.ref, path: candidate.path, commit };
+            }
+        }
     }
-    
-    // Not a GitHub URL
     return null;
 }
 
-export function buildGitHubUrl(repoInfo: RepoInfo, filePath: string, startLineNumber: number, endLineNumber?: number): string | null {
+// The commit a ref (a branch, tag, SHA or expression like HEAD~1) points to, or null when there is none
+export async function resolveCommit(repoPath: string, ref: string): Promise<string | null> {
+    try {
+        return await executeCommand(['rev-parse', '--verify', '--quiet', `${ref}^{commit}`], repoPath);
+    } catch (error) {
+        return null;
+    }
+}
+
+// Local branches, remote-tracking branches and tags, newest first
+export async function listRefs(repoPath: string): Promise<GitRef[]> {
+    try {
+        const output = await executeCommand([
+            'for-each-ref',
+            '--sort=-creatordate',
+            '--format=%(refname)%00%(objectname)%00%(*objectname)%00%(subject)%00%(creatordate:relative)',
+            'refs/heads', 'refs/remotes', 'refs/tags'
+        ], repoPath);
+
+        const refs: GitRef[] = [];
+        for (const line of output.split('\n')) {
+            // Annotated tags point at a tag object; *objectname is the commit it tags
+            const [ref, object, taggedCommit, subject, date] = line.split('\0');
+            const match = ref?.match(/^refs\/(heads|remotes|tags)\/(.+)$/);
+            // refs/remotes/<remote>/HEAD only points at another remote-tracking branch
+            if (!match || (match[1] === 'remotes' && match[2].endsWith('/HEAD'))) {
+                continue;
+            }
+            const kind = match[1] === 'heads' ? 'branch' : match[1] === 'remotes' ? 'remote' : 'tag';
+            refs.push({ kind, name: match[2], ref, commit: taggedCommit || object, subject: subject ?? '', date: date ?? '' });
+        }
+        return refs;
+    } catch (error) {
+        return [];
+    }
+}
+
+// The newest commits reachable from HEAD
+export async function getRecentCommits(repoPath: string, count = 50): Promise<GitRef[]> {
+    try {
+        const output = await executeCommand(['log', `-n${count}`, '--format=%H%x00%s%x00%cr'], repoPath);
+        return output.split('\n').filter(line => line).map(line => {
+            const [commit, subject, date] = line.split('\0');
+            return { kind: 'commit', name: commit, ref: commit, commit, subject: subject ?? '', date: date ?? '' };
+        });
+    } catch (error) {
+        return [];
+    }
+}
+
+// The path a file had at a ref. When it was renamed since, the names it had in HEAD's history
+// (git log --follow) are tried newest first. Null when the file did not exist at the ref.
+export async function getPathAtRef(repoPath: string, relativePath: string, ref: string): Promise<string | null> {
+    if (await pathExistsAtRef(repoPath, relativePath, ref)) {
+        return relativePath;
+    }
+
+    let output: string;
+    try {
+        output = await executeCommand(['log', '--follow', '--name-only', '--format=%H', 'HEAD', '--', relativePath], repoPath);
+    } catch (error) {
+        return null;
+    }
+
+    // Each commit is listed as its SHA, a blank line and the file's name in that commit
+    const previousPaths = new Set(output.split('\n').filter(line => line && !/^[0-9a-f]{40}$/.test(line) && line !== relativePath));
+    for (const previousPath of previousPaths) {
+        if (await pathExistsAtRef(repoPath, previousPath, ref)) {
+            return previousPath;
+        }
+    }
+    return null;
+}
+
+async function pathExistsAtRef(repoPath: string, relativePath: string, ref: string): Promise<boolean> {
+    try {
+        await executeCommand(['cat-file', '-e', `${ref}:${relativePath}`], repoPath);
+        return true;
+    } catch (error) {
+        return false;
+    }
+}
+
+export async function getFileAtRef(repoPath: string, ref: string, relativePath: string): Promise<string | null> {
+    try {
+        return await executeCommand(['show', `${ref}:${relativePath}`], repoPath, false);
+    } catch (error) {
+        // The file does not exist at that ref
+        return null;
+    }
+}
+
+// Blames the file on disk, or the file at a revision when one is given
+export async function getLastCommitForLines(repoPath: string, relativePath: string, startLine: number, endLine: number, revision?: string): Promise<BlamedLine | null> {
+    try {
+        const output = await executeCommand(
+            ['blame', '--porcelain', '-L', `${startLine},${endLine}`, ...(revision ? [revision] : []), '--', relativePath],
+            repoPath
+        );
+
+        // Each line starts with "<sha> <original line> <final line> [<lines in group>]". The commit's
+        // details, committer-time and filename included, follow only the first time a commit appears.
+        const lines: { commit: string; line: number }[] = [];
+        const committerTimes = new Map<string, number>();
+        const fileNames = new Map<string, string>();
+        let current = '';
+        for (const outputLine of output.split('\n')) {
+            const header = outputLine.match(/^([0-9a-f]{40}) (\d+) \d+/);
+            if (header) {
+                current = header[1];
+                lines.push({ commit: current, line: Number(header[2]) });
+            } else if (outputLine.startsWith('committer-time ')) {
+                committerTimes.set(current, Number(outputLine.slice('committer-time '.length)));
+            } else if (outputLine.startsWith('filename ') && !fileNames.has(current)) {
+                fileNames.set(current, outputLine.slice('filename '.length));
+            }
+        }
+
+        // Uncommitted lines are blamed on the all-zero SHA
+        let newest: { commit: string; line: number } | undefined;
+        for (const blamed of lines) {
+            if (/^0+$/.test(blamed.commit)) {
+                continue;
+            }
+            if (!newest || (committerTimes.get(blamed.commit) ?? 0) > (committerTimes.get(newest.commit) ?? 0)) {
+                newest = blamed;
+            }
+        }
+
+        return newest ? { commit: newest.commit, filePath: fileNames.get(newest.commit) ?? relativePath, line: newest.line } : null;
+    } catch (error) {
+        // The file is not tracked or the lines are past the end of the file on disk
+        return null;
+    }
+}
+
+export async function isCommitPushed(repoPath: string, commit: string): Promise<boolean> {
+    try {
+        // Lists every remote-tracking branch that contains the commit, empty when it was never pushed
+        const branches = await executeCommand(['branch', '-r', '--contains', commit], repoPath);
+        return branches.length > 0;
+    } catch (error) {
+        return false;
+    }
+}
+
+export async function getNewestPushedAncestor(repoPath: string, commit: string): Promise<string | null> {
+    try {
+        // Walk the unpushed commits; the boundary commits (prefixed with '-') are the
+        // nearest ancestors that some remote-tracking branch already contains
+        const output = await executeCommand(['rev-list', '--boundary', '--topo-order', commit, '--not', '--remotes'], repoPath);
+        const boundary = output.split('\n').find(line => line.startsWith('-'));
+        return boundary ? boundary.slice(1) : null;
+    } catch (error) {
+        return null;
+    }
+}
+
+export function buildGitHubUrl(repoInfo: RepoInfo, filePath: string, startLineNumber: number, endLineNumber?: number, ref: string = repoInfo.branch, view: ViewKind = 'blob'): string | null {
     try {
         // Get the relative path of the file within the repository
         const relativePath = path.relative(repoInfo.rootPath, filePath).replace(/\\/g, '/');
-        
-        // Construct the GitHub URL with the line number(s)
-        if (endLineNumber && endLineNumber !== startLineNumber) {
-            // For a multi-line selection
-            return `${repoInfo.remoteUrl}/blob/${repoInfo.branch}/${relativePath}#L${startLineNumber}-L${endLineNumber}`;
-        } else {
-            // For a single line selection or cursor position
-            return `${repoInfo.remoteUrl}/blob/${repoInfo.branch}/${relativePath}#L${startLineNumber}`;
+
+        // The hosting provider knows how its pages address a file and line range
+        const provider = getProvider(repoInfo.provider);
+        switch (view) {
+            case 'blame':
+                return provider.blameUrl(repoInfo.remoteUrl, ref, relativePath, startLineNumber, endLineNumber);
+            case 'history':
+                return provider.historyUrl(repoInfo.remoteUrl, ref, relativePath);
+            case 'raw':
+                return provider.rawUrl(repoInfo.remoteUrl, ref, relativePath);
+            case 'commit':
+                return provider.commitUrl(repoInfo.remoteUrl, ref, relativePath, startLineNumber);
+            default:
+                return provider.lineUrl(repoInfo.remoteUrl, ref, relativePath, startLineNumber, endLineNumber);
+        }
+    } catch (error) {
+        return null;
+    }
+}
+
+export function buildGitHubPermalink(repoInfo: RepoInfo, filePath: string, startLineNumber: number, endLineNumber?: number, commit: string | null = repoInfo.commit): string | null {
+    // Without a commit there is nothing to pin the link to
+    if (!commit) {
+        return null;
+    }
+    return buildGitHubUrl(repoInfo, filePath, startLineNumber, endLineNumber, commit);
+}
+
+// Compares the branch headRepo links to with base on baseRepo's remote, or opens the form creating a pull
+// request. A branch on another remote (a fork) is named owner:branch, which needs both on the same host.
+export function buildGitHubCompareUrl(baseRepo: RepoInfo, base: string, headRepo: RepoInfo = baseRepo, pullRequest = false): string | null {
+    try {
+        const provider = getProvider(baseRepo.provider);
+        if (headRepo.remoteUrl === baseRepo.remoteUrl) {
+            return provider.compareUrl(baseRepo.remoteUrl, base, headRepo.branch, pullRequest);
+        }
+
+        const baseUrl = new URL(baseRepo.remoteUrl);
+        const headUrl = new URL(headRepo.remoteUrl);
+        if (!provider.forkHeads || headRepo.provider !== baseRepo.provider || headUrl.host !== baseUrl.host) {
+            return null;
+        }
+        const owner = headUrl.pathname.split('/')[1];
+        return provider.compareUrl(baseRepo.remoteUrl, base, `${owner}:${headRepo.branch}`, pullRequest);
+    } catch (error) {
+        return null;
+    }
+}
+
+// Links a heading of a rendered Markdown file by its anchor. Only GitHub, since other hosts slug headings their own way.
+export function buildGitHubHeadingUrl(repoInfo: RepoInfo, filePath: string, slug: string, ref: string = repoInfo.branch): string | null {
+    if (repoInfo.provider !== 'github') {
+        return null;
+    }
+    const fileUrl = buildGitHubPathUrl(repoInfo, filePath, false, ref);
+    return fileUrl && `${fileUrl}#${encodeURIComponent(slug)}`;
+}
+
+// Links a whole file or folder rather than lines: the repository root opens the repository home page
+export function buildGitHubPathUrl(repoInfo: RepoInfo, fsPath: string, directory: boolean, ref: string = repoInfo.branch): string | null {
+    try {
+        const relativePath = path.relative(repoInfo.rootPath, fsPath).replace(/\\/g, '/');
+        if (relativePath.startsWith('..') || path.isAbsolute(relativePath)) {
+            // Not inside the repository
+            return null;
+        }
+
+        const provider = getProvider(repoInfo.provider);
+        if (!relativePath) {
+            return repoInfo.remoteUrl;
         }
+        return directory
+            ? provider.directoryUrl(repoInfo.remoteUrl, ref, relativePath)
+            : provider.fileUrl(repoInfo.remoteUrl, ref, relativePath);
     } catch (error) {
         return null;
     }
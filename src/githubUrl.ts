@@ -0,0 +1,71 @@
+// A link to a file on GitHub, taken apart so it can be matched to a local repository
+export interface GitHubFileUrl {
+    // The repository page, e.g. https://github.com/org/repo, comparable with RepoInfo.remoteUrl
+    webUrl: string;
+    view: 'blob' | 'blame';
+    // The ref and file path segments. Branch names can contain slashes, so where the ref ends
+    // is only known once the candidates are checked against the repository (see resolveRefAndPath).
+    segments: string[];
+    startLine?: number;
+    endLine?: number;
+}
+
+// Links can come from a browser through the URI handler. Git runs without a shell, so only line
+// breaks, which no tracked path should contain, are refused.
+const UNSAFE_SEGMENT = /[\r\n]/;
+
+export function parseGitHubFileUrl(url: string): GitHubFileUrl | null {
+    let parsed: URL;
+    try {
+        parsed = new URL(url.trim());
+    } catch (error) {
+        return null;
+    }
+    if (parsed.protocol !== 'https:' && parsed.protocol !== 'http:') {
+        return null;
+    }
+
+    // /<owner>/<repo>/<blob|blame>/<ref>/<path...>
+    const [owner, repo, view, ...rest] = parsed.pathname.split('/').slice(1);
+    if (!owner || !repo || (view !== 'blob' && view !== 'blame') || rest.length < 2) {
+        return null;
+    }
+
+    let segments: string[];
+    try {
+        segments = rest.map(decodeURIComponent);
+    } catch (error) {
+        return null;
+    }
+
+    // Backslashes are separators on Windows, so a\..\..\b counts as leaving the repository there
+    if (segments.some(segment => !segment || segment.split('\\').some(part => part === '.' || part === '..') || UNSAFE_SEGMENT.test(segment))) {
+        return null;
+    }
+
+    // Anchors look like #L10, #L10-L20 or #L10C5-L20C8 (with columns)
+    const lines = parsed.hash.match(/^#L(\d+)(?:C\d+)?(?:-L(\d+)(?:C\d+)?)?$/);
+    const startLine = lines ? Number(lines[1]) : undefined;
+    const endLine = lines ? Number(lines[2] ?? lines[1]) : undefined;
+
+    return {
+        webUrl: `${parsed.protocol}//${parsed.host}/${owner}/${repo.replace(/\.git$/, '')}`,
+        view,
+        segments,
+        // Ranges selected bottom-up are still linked top-down
+        startLine: startLine !== undefined && endLine !== undefined ? Math.min(startLine, endLine) : undefined,
+        endLine: startLine !== undefined && endLine !== undefined ? Math.max(startLine, endLine) : undefined
+    };
+}
+
+// Every way to split the segments into a ref and a non-empty file path, shortest ref first
+export function getRefCandidates(segments: string[]): { ref: string; path: string }[] {
+    const candidates: { ref: string; path: string }[] = [];
+    for (let refLength = 1; refLength < segments.length; refLength++) {
+        candidates.push({
+            ref: segments.slice(0, refLength).join('/'),
+            path: segments.slice(refLength).join('/')
+        });
+    }
+    return candidates;
+}
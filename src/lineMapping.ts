@@ -0,0 +1,145 @@
+// Maps every line of the local text to the line it matches in the remote text, or -1
+// when the line was added or changed locally. Line numbers are 0-based.
+export type LineMapping = number[];
+
+export interface LineRange {
+    start: number;
+    end: number;
+}
+
+export function splitLines(text: string): string[] {
+    return text.split(/\r?\n/);
+}
+
+// Diffs the two texts with Myers' algorithm. Returns null when they differ in more than
+// maxEdits lines, since the mapping would be meaningless and the diff expensive.
+export function computeLineMapping(remoteLines: string[], localLines: string[], maxEdits = 1000): LineMapping | null {
+    const mapping: LineMapping = new Array(localLines.length).fill(-1);
+
+    // Unchanged lines at the start and end are by far the common case
+    let prefix = 0;
+    while (prefix < remoteLines.length && prefix < localLines.length && remoteLines[prefix] === localLines[prefix]) {
+        mapping[prefix] = prefix;
+        prefix++;
+    }
+    let suffix = 0;
+    while (suffix < remoteLines.length - prefix && suffix < localLines.length - prefix
+        && remoteLines[remoteLines.length - 1 - suffix] === localLines[localLines.length - 1 - suffix]) {
+        mapping[localLines.length - 1 - suffix] = remoteLines.length - 1 - suffix;
+        suffix++;
+    }
+
+    const a = remoteLines.slice(prefix, remoteLines.length - suffix);
+    const b = localLines.slice(prefix, localLines.length - suffix);
+    const n = a.length;
+    const m = b.length;
+    if (n === 0 || m === 0) {
+        return mapping;
+    }
+
+    // v[k] holds the furthest x reached on diagonal k; trace keeps a copy of v[-d - 1..d + 1] per step
+    const limit = Math.min(n + m, maxEdits);
+    const offset = limit + 1;
+    const v = new Int32Array(2 * limit + 3);
+    const trace: Int32Array[] = [];
+    let done = false;
+
+    for (let d = 0; d <= limit && !done; d++) {
+        for (let k = -d; k <= d; k += 2) {
+            let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+                ? v[offset + k + 1]
+                : v[offset + k - 1] + 1;
+            let y = x - k;
+            while (x < n && y < m && a[x] === b[y]) {
+                x++;
+                y++;
+            }
+            v[offset + k] = x;
+            if (x >= n && y >= m) {
+                done = true;
+                break;
+            }
+        }
+        trace.push(v.slice(offset - d - 1, offset + d + 2));
+    }
+
+    if (!done) {
+        return null;
+    }
+
+    // Walk back through the trace, recording the diagonal (matching) moves
+    let x = n;
+    let y = m;
+    for (let d = trace.length - 1; d >= 0; d--) {
+        const k = x - y;
+        let prevX = 0;
+        let prevY = 0;
+        if (d > 0) {
+            const previous = trace[d - 1];
+            const at = (diagonal: number) => previous[diagonal + d];
+            const prevK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+            prevX = at(prevK);
+            prevY = prevX - prevK;
+        }
+
+        while (x > prevX && y > prevY) {
+            x--;
+            y--;
+            mapping[prefix + y] = prefix + x;
+        }
+        x = prevX;
+        y = prevY;
+    }
+
+    return mapping;
+}
+
+// Translates a local range to the remote lines it covers, or null when none of them exist remotely
+export function mapRange(mapping: LineMapping, range: LineRange): LineRange | null {
+    let start = -1;
+    let end = -1;
+    for (let line = range.start; line <= range.end && line < mapping.length; line++) {
+        const mapped = mapping[line];
+        if (mapped === -1) {
+            continue;
+        }
+        if (start === -1) {
+            start = mapped;
+        }
+        end = mapped;
+    }
+    return start === -1 ? null : { start, end };
+}
+
+// Finds the remote line of the closest local line that still exists remotely
+export function findNearestMappedLine(mapping: LineMapping, line: number): number | null {
+    for (let distance = 1; distance < mapping.length; distance++) {
+        for (const candidate of [line - distance, line + distance]) {
+            if (candidate >= 0 && candidate < mapping.length && mapping[candidate] !== -1) {
+                return mapping[candidate];
+            }
+        }
+    }
+    return null;
+}
+
+// The 0-based lines a selection covers. A selection ending at column 0 of a later line (what selecting
+// whole lines with Shift+Down or by dragging gives) doesn't include that line.
+export function getSelectionLines(selection: { start: { line: number; character: number }; end: { line: number; character: number } }): LineRange {
+    const { start, end } = selection;
+    return { start: start.line, end: end.line > start.line && end.character === 0 ? end.line - 1 : end.line };
+}
+
+// Sorts the ranges and merges the ones that overlap or touch
+export function mergeLineRanges(ranges: LineRange[]): LineRange[] {
+    const merged: LineRange[] = [];
+    for (const range of [...ranges].sort((a, b) => a.start - b.start)) {
+        const last = merged[merged.length - 1];
+        if (last && range.start <= last.end + 1) {
+            last.end = Math.max(last.end, range.end);
+        } else {
+            merged.push({ ...range });
+        }
+    }
+    return merged;
+}
@@ -0,0 +1,14 @@
+import * as vscode from 'vscode';
+
+// The "Open in Github" output channel. Created on first use, so git commands run before
+// activation (or from tests) are logged too.
+let channel: vscode.LogOutputChannel | undefined;
+
+export function getLog(): vscode.LogOutputChannel {
+    return channel ??= vscode.window.createOutputChannel('Open in Github', { log: true });
+}
+
+export function disposeLog(): void {
+    channel?.dispose();
+    channel = undefined;
+}
@@ -0,0 +1,120 @@
+// A heading of a Markdown document and the anchor GitHub gives it
+export interface MarkdownHeading {
+    text: string;
+    slug: string;
+    // 0-based lines the heading spans: one for # headings, two for underlined ones
+    startLine: number;
+    endLine: number;
+}
+
+// GitHub keeps letters, marks, numbers, connector punctuation (like _), hyphens and spaces;
+// everything else, including emoji, is dropped
+const SLUG_REMOVED = /[^\p{L}\p{M}\p{N}\p{Pc}\- ]/gu;
+
+// The anchor of a heading before duplicates are numbered, following github-slugger:
+// lowercased, other characters removed and every space turned into a hyphen
+export function slugifyHeading(text: string): string {
+    return text.toLowerCase().replace(SLUG_REMOVED, '').replace(/ /g, '-');
+}
+
+// Returns unique slugs in document order. A repeated slug gets -1, -2, ... appended, skipping
+// suffixes already taken by other headings, the way GitHub numbers duplicate headings.
+export function createSlugger(): (text: string) => string {
+    const occurrences = new Map<string, number>();
+    return text => {
+        const original = slugifyHeading(text);
+        let slug = original;
+        while (occurrences.has(slug)) {
+            const count = (occurrences.get(original) ?? 0) + 1;
+            occurrences.set(original, count);
+            slug = `${original}-${count}`;
+        }
+        occurrences.set(slug, 0);
+        return slug;
+    };
+}
+
+// The text GitHub renders for the heading's source: links and code keep their text, while
+// images, HTML tags, emphasis markers and backslash escapes disappear
+export function getHeadingText(source: string): string {
+    return source
+        .replace(/!\[[^\]]*\]\([^)]*\)/g, '')
+        .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+        .replace(/<[^>]+>/g, '')
+        .replace(/`+([^`]*)`+/g, '$1')
+        .replace(/&(?:[a-z]+|#\d+);/gi, '')
+        // Underscores around words are emphasis, inside them (snake_case) they are kept
+        .replace(/(^|[^\p{L}\p{N}_])_+(?=\S)/gu, '$1')
+        .replace(/(\S)_+(?=$|[^\p{L}\p{N}_])/gu, '$1')
+        .replace(/\\(.)/g, '$1')
+        .trim();
+}
+
+const ATX_HEADING = /^ {0,3}(#{1,6})(?:[ \t]+(.*))?$/;
+const SETEXT_UNDERLINE = /^ {0,3}(?:=+|-+)[ \t]*$/;
+const FENCE = /^ {0,3}(`{3,}|~{3,})/;
+// Lines that can't be the text of an underlined heading
+const NOT_PARAGRAPH = /^(?: {4}|\t| {0,3}(?:[-*+>]|\d+[.)])(?:[ \t]|$))/;
+
+// Finds the headings of a document, skipping fenced code blocks and front matter
+export function findMarkdownHeadings(lines: string[]): MarkdownHeading[] {
+    const headings: MarkdownHeading[] = [];
+    const slugger = createSlugger();
+    const add = (source: string, startLine: number, endLine: number) => {
+        const text = getHeadingText(source);
+        headings.push({ text, slug: slugger(text), startLine, endLine });
+    };
+
+    let index = 0;
+    // YAML front matter is shown as a table, without anchors
+    if (lines[0]?.trim() === '---') {
+        const end = lines.findIndex((line, lineIndex) => lineIndex > 0 && /^(?:---|\.\.\.)\s*$/.test(line));
+        if (end > 0) {
+            index = end + 1;
+        }
+    }
+
+    let fence: string | undefined;
+    let paragraph = false;
+    for (; index < lines.length; index++) {
+        const line = lines[index];
+        if (fence) {
+            // Closed by a fence of the same character at least as long, with nothing after it
+            const closing = line.match(FENCE);
+            if (closing && closing[1][0] === fence[0] && closing[1].length >= fence.length && !line.trim().slice(closing[1].length).trim()) {
+                fence = undefined;
+            }
+            continue;
+        }
+
+        const opening = line.match(FENCE);
+        if (opening) {
+            fence = opening[1];
+            paragraph = false;
+            continue;
+        }
+
+        const atx = line.match(ATX_HEADING);
+        if (atx) {
+            // The closing hashes of "## Title ##" aren't part of the text
+            add((atx[2] ?? '').replace(/(?:^|[ \t]+)#+[ \t]*$/, '').trim(), index, index);
+            paragraph = false;
+            continue;
+        }
+
+        if (paragraph && SETEXT_UNDERLINE.test(line)) {
+            add(lines[index - 1].trim(), index - 1, index);
+            paragraph = false;
+            continue;
+        }
+
+        paragraph = line.trim() !== '' && !NOT_PARAGRAPH.test(line);
+    }
+    return headings;
+}
+
+// The heading on the given 0-based line, or null when the line isn't part of a heading with text
+export function getHeadingAt(lines: string[], line: number): MarkdownHeading | null {
+    const heading = findMarkdownHeadings(lines).find(candidate => candidate.startLine <= line && line <= candidate.endLine);
+    return heading?.slug ? heading : null;
+}
@@ -0,0 +1,217 @@
+import * as crypto from 'crypto';
+
+export type ProviderId = 'github' | 'gitlab' | 'bitbucket' | 'gitea' | 'azure';
+
+export interface HostingProvider {
+    id: ProviderId;
+    name: string;
+    // Whether a remote on this host is served by the provider
+    matchesHost(host: string): boolean;
+    // Turns the web origin (e.g. https://github.com) and repository path of a remote into the repository's web page
+    webUrl(origin: string, repoPath: string): string | null;
+    fileUrl(webUrl: string, ref: string, filePath: string): string;
+    directoryUrl(webUrl: string, ref: string, directoryPath: string): string;
+    lineUrl(webUrl: string, ref: string, filePath: string, startLine: number, endLine?: number): string;
+    blameUrl(webUrl: string, ref: string, filePath: string, startLine?: number, endLine?: number): string;
+    historyUrl(webUrl: string, ref: string, filePath: string): string;
+    rawUrl(webUrl: string, ref: string, filePath: string): string;
+    // Providers that can anchor a file (and line) in the commit's diff do so when filePath is given
+    commitUrl(webUrl: string, commit: string, filePath?: string, line?: number): string;
+    // Compares head with base, or opens the page creating a pull request from head into base
+    compareUrl(webUrl: string, base: string, head: string, pullRequest: boolean): string;
+    // Whether compare pages accept owner:branch as the head, for branches on a fork
+    forkHeads: boolean;
+}
+
+export function isCommitSha(ref: string): boolean {
+    return /^[0-9a-f]{40}$/i.test(ref);
+}
+
+// Keeps the slashes of a repository path while escaping everything else
+function encodePath(filePath: string): string {
+    return filePath.split('/').map(encodeURIComponent).join('/');
+}
+
+function stripGitSuffix(repoPath: string): string {
+    return repoPath.replace(/\/+$/, '').replace(/\.git$/, '');
+}
+
+// Most hosts serve the web page at the same path as the clone URL
+function defaultWebUrl(origin: string, repoPath: string): string | null {
+    const trimmed = stripGitSuffix(repoPath.replace(/^\/+/, ''));
+    return trimmed ? `${origin}/${trimmed}` : null;
+}
+
+// Files GitHub shows rendered rather than as source, where line anchors only work in the plain view
+const RENDERED_EXTENSIONS = new Set(['md', 'markdown', 'mdown', 'mkdn', 'mkd', 'ipynb', 'csv', 'tsv', 'svg', 'geojson', 'topojson']);
+
+export function isRenderedFile(filePath: string): boolean {
+    const extension = filePath.match(/\.([^./\\]+)$/)?.[1];
+    return extension !== undefined && RENDERED_EXTENSIONS.has(extension.toLowerCase());
+}
+
+function hasRange(startLine: number | undefined, endLine: number | undefined): endLine is number {
+    return startLine !== undefined && endLine !== undefined && endLine !== startLine;
+}
+
+export const githubProvider: HostingProvider = {
+    id: 'github',
+    name: 'GitHub',
+    matchesHost: host => host === 'github.com' || host === 'www.github.com',
+    webUrl: defaultWebUrl,
+    fileUrl: (webUrl, ref, filePath) => `${webUrl}/blob/${ref}/${encodePath(filePath)}`,
+    directoryUrl: (webUrl, ref, directoryPath) => `${webUrl}/tree/${ref}/${encodePath(directoryPath)}`,
+    lineUrl: (webUrl, ref, filePath, startLine, endLine) =>
+        `${githubProvider.fileUrl(webUrl, ref, filePath)}${isRenderedFile(filePath) ? '?plain=1' : ''}${githubLineAnchor(startLine, endLine)}`,
+    blameUrl: (webUrl, ref, filePath, startLine, endLine) =>
+        `${webUrl}/blame/${ref}/${encodePath(filePath)}${startLine !== undefined ? githubLineAnchor(startLine, endLine) : ''}`,
+    historyUrl: (webUrl, ref, filePath) => `${webUrl}/commits/${ref}/${encodePath(filePath)}`,
+    // Redirects to raw.githubusercontent.com, or serves the file directly on GitHub Enterprise
+    rawUrl: (webUrl, ref, filePath) => `${webUrl}/raw/${ref}/${encodePath(filePath)}`,
+    // Files in a commit diff are anchored by the SHA-256 of their path, and lines of the new version by R<line>
+    commitUrl: (webUrl, commit, filePath, line) => filePath
+        ? `${webUrl}/commit/${commit}#diff-${crypto.createHash('sha256').update(filePath).digest('hex')}${line !== undefined ? `R${line}` : ''}`
+        : `${webUrl}/commit/${commit}`,
+    // expand=1 opens the pull request form rather than just the diff
+    compareUrl: (webUrl, base, head, pullRequest) => `${webUrl}/compare/${base}...${head}${pullRequest ? '?expand=1' : ''}`,
+    forkHeads: true
+};
+
+function githubLineAnchor(startLine: number, endLine?: number): string {
+    return hasRange(startLine, endLine) ? `#L${startLine}-L${endLine}` : `#L${startLine}`;
+}
+
+export const gitlabProvider: HostingProvider = {
+    id: 'gitlab',
+    name: 'GitLab',
+    matchesHost: host => host === 'gitlab.com' || host.split('.').includes('gitlab'),
+    webUrl: defaultWebUrl,
+    fileUrl: (webUrl, ref, filePath) => `${webUrl}/-/blob/${ref}/${encodePath(filePath)}`,
+    directoryUrl: (webUrl, ref, directoryPath) => `${webUrl}/-/tree/${ref}/${encodePath(directoryPath)}`,
+    lineUrl: (webUrl, ref, filePath, startLine, endLine) =>
+        `${gitlabProvider.fileUrl(webUrl, ref, filePath)}${isRenderedFile(filePath) ? '?plain=1' : ''}${gitlabLineAnchor(startLine, endLine)}`,
+    blameUrl: (webUrl, ref, filePath, startLine, endLine) =>
+        `${webUrl}/-/blame/${ref}/${encodePath(filePath)}${startLine !== undefined ? gitlabLineAnchor(startLine, endLine) : ''}`,
+    historyUrl: (webUrl, ref, filePath) => `${webUrl}/-/commits/${ref}/${encodePath(filePath)}`,
+    rawUrl: (webUrl, ref, filePath) => `${webUrl}/-/raw/${ref}/${encodePath(filePath)}`,
+    commitUrl: (webUrl, commit) => `${webUrl}/-/commit/${commit}`,
+    compareUrl: (webUrl, base, head, pullRequest) => pullRequest
+        ? `${webUrl}/-/merge_requests/new?merge_request[source_branch]=${encodeURIComponent(head)}&merge_request[target_branch]=${encodeURIComponent(base)}`
+        : `${webUrl}/-/compare/${base}...${head}`,
+    forkHeads: false
+};
+
+function gitlabLineAnchor(startLine: number, endLine?: number): string {
+    return hasRange(startLine, endLine) ? `#L${startLine}-${endLine}` : `#L${startLine}`;
+}
+
+export const bitbucketProvider: HostingProvider = {
+    id: 'bitbucket',
+    name: 'Bitbucket',
+    matchesHost: host => host === 'bitbucket.org' || host.split('.').includes('bitbucket'),
+    webUrl: defaultWebUrl,
+    fileUrl: (webUrl, ref, filePath) => `${webUrl}/src/${ref}/${encodePath(filePath)}`,
+    directoryUrl: (webUrl, ref, directoryPath) => `${webUrl}/src/${ref}/${encodePath(directoryPath)}/`,
+    lineUrl: (webUrl, ref, filePath, startLine, endLine) =>
+        `${bitbucketProvider.fileUrl(webUrl, ref, filePath)}${bitbucketLineAnchor(startLine, endLine)}`,
+    blameUrl: (webUrl, ref, filePath, startLine, endLine) =>
+        `${webUrl}/annotate/${ref}/${encodePath(filePath)}${startLine !== undefined ? bitbucketLineAnchor(startLine, endLine) : ''}`,
+    historyUrl: (webUrl, ref, filePath) => `${webUrl}/history-node/${ref}/${encodePath(filePath)}`,
+    rawUrl: (webUrl, ref, filePath) => `${webUrl}/raw/${ref}/${encodePath(filePath)}`,
+    commitUrl: (webUrl, commit) => `${webUrl}/commits/${commit}`,
+    // Bitbucket lists the branches to compare newest first, separated by a carriage return
+    compareUrl: (webUrl, base, head, pullRequest) => pullRequest
+        ? `${webUrl}/pull-requests/new?source=${encodeURIComponent(head)}&dest=${encodeURIComponent(base)}`
+        : `${webUrl}/branches/compare/${encodeURIComponent(head)}%0D${encodeURIComponent(base)}`,
+    forkHeads: false
+};
+
+function bitbucketLineAnchor(startLine: number, endLine?: number): string {
+    return hasRange(startLine, endLine) ? `#lines-${startLine}:${endLine}` : `#lines-${startLine}`;
+}
+
+// Gitea and Forgejo need to know whether the ref is a branch or a commit
+function giteaRef(ref: string): string {
+    return isCommitSha(ref) ? `commit/${ref}` : `branch/${ref}`;
+}
+
+export const giteaProvider: HostingProvider = {
+    id: 'gitea',
+    name: 'Gitea',
+    matchesHost: host => host === 'codeberg.org' || host.split('.').some(label => label === 'gitea' || label === 'forgejo'),
+    webUrl: defaultWebUrl,
+    fileUrl: (webUrl, ref, filePath) => `${webUrl}/src/${giteaRef(ref)}/${encodePath(filePath)}`,
+    directoryUrl: (webUrl, ref, directoryPath) => `${webUrl}/src/${giteaRef(ref)}/${encodePath(directoryPath)}`,
+    lineUrl: (webUrl, ref, filePath, startLine, endLine) =>
+        `${giteaProvider.fileUrl(webUrl, ref, filePath)}${isRenderedFile(filePath) ? '?display=source' : ''}${githubLineAnchor(startLine, endLine)}`,
+    blameUrl: (webUrl, ref, filePath, startLine, endLine) =>
+        `${webUrl}/blame/${giteaRef(ref)}/${encodePath(filePath)}${startLine !== undefined ? githubLineAnchor(startLine, endLine) : ''}`,
+    historyUrl: (webUrl, ref, filePath) => `${webUrl}/commits/${giteaRef(ref)}/${encodePath(filePath)}`,
+    rawUrl: (webUrl, ref, filePath) => `${webUrl}/raw/${giteaRef(ref)}/${encodePath(filePath)}`,
+    commitUrl: (webUrl, commit) => `${webUrl}/commit/${commit}`,
+    // The compare page offers the "New Pull Request" button itself
+    compareUrl: (webUrl, base, head) => `${webUrl}/compare/${base}...${head}`,
+    forkHeads: true
+};
+
+// Azure DevOps addresses files through query parameters on the repository page
+function azureFileQuery(ref: string, filePath: string): string {
+    const version = isCommitSha(ref) ? `GC${ref}` : `GB${encodeURIComponent(ref)}`;
+    return `?path=/${encodePath(filePath)}&version=${version}`;
+}
+
+export const azureProvider: HostingProvider = {
+    id: 'azure',
+    name: 'Azure DevOps',
+    matchesHost: host => host === 'dev.azure.com' || host === 'ssh.dev.azure.com' || host.endsWith('.visualstudio.com'),
+    webUrl: (origin, repoPath) => {
+        const segments = stripGitSuffix(repoPath.replace(/^\/+/, '')).split('/');
+
+        // SSH remotes: ssh.dev.azure.com:v3/org/project/repo and org@vs-ssh.visualstudio.com:v3/org/project/repo
+        if (segments[0] === 'v3' && segments.length === 4) {
+            const [, org, project, repo] = segments;
+            return origin.endsWith('.visualstudio.com')
+                ? `https://${org}.visualstudio.com/${project}/_git/${repo}`
+                : `https://dev.azure.com/${org}/${project}/_git/${repo}`;
+        }
+
+        // HTTPS remotes already point at the web page, e.g. dev.azure.com/org/project/_git/repo
+        return segments.includes('_git') ? `${origin}/${segments.join('/')}` : null;
+    },
+    fileUrl: (webUrl, ref, filePath) => `${webUrl}${azureFileQuery(ref, filePath)}`,
+    directoryUrl: (webUrl, ref, directoryPath) => `${webUrl}${azureFileQuery(ref, directoryPath)}`,
+    // The selection ends at column 1 of the line after the range so the last line is fully highlighted
+    lineUrl: (webUrl, ref, filePath, startLine, endLine) =>
+        `${webUrl}${azureFileQuery(ref, filePath)}&line=${startLine}&lineEnd=${(endLine ?? startLine) + 1}&lineStartColumn=1&lineEndColumn=1&lineStyle=plain&_a=contents`,
+    blameUrl: (webUrl, ref, filePath, startLine) =>
+        `${webUrl}${azureFileQuery(ref, filePath)}${startLine !== undefined ? `&line=${startLine}` : ''}&_a=blame`,
+    historyUrl: (webUrl, ref, filePath) => `${webUrl}${azureFileQuery(ref, filePath)}&_a=history`,
+    // Raw contents come from the REST API, which addresses the repository as _apis/git/repositories/<repo>
+    rawUrl: (webUrl, ref, filePath) => {
+        const versionType = isCommitSha(ref) ? 'commit' : 'branch';
+        return `${webUrl.replace(/\/_git\/([^/]+)$/, '/_apis/git/repositories/$1')}/items?path=/${encodePath(filePath)}`
+            + `&versionDescriptor.version=${encodeURIComponent(ref)}&versionDescriptor.versionType=${versionType}&download=true`;
+    },
+    commitUrl: (webUrl, commit) => `${webUrl}/commit/${commit}`,
+    compareUrl: (webUrl, base, head, pullRequest) => pullRequest
+        ? `${webUrl}/pullrequestcreate?sourceRef=${encodeURIComponent(head)}&targetRef=${encodeURIComponent(base)}`
+        : `${webUrl}/branchCompare?baseVersion=GB${encodeURIComponent(base)}&targetVersion=GB${encodeURIComponent(head)}`,
+    forkHeads: false
+};
+
+export const PROVIDERS: HostingProvider[] = [githubProvider, gitlabProvider, bitbucketProvider, giteaProvider, azureProvider];
+
+export function getProvider(id: ProviderId): HostingProvider {
+    return PROVIDERS.find(provider => provider.id === id) ?? githubProvider;
+}
+
+// Hosts listed in the providerHosts setting take precedence over detection, which
+// is what makes self-hosted instances with arbitrary hostnames work
+export function detectProvider(host: string, providerHosts: Record<string, ProviderId> = {}): HostingProvider | null {
+    const normalizedHost = host.toLowerCase();
+    const configured = Object.entries(providerHosts).find(([configuredHost]) => configuredHost.toLowerCase() === normalizedHost);
+    if (configured) {
+        return PROVIDERS.find(provider => provider.id === configured[1]) ?? null;
+    }
+    return PROVIDERS.find(provider => provider.matchesHost(normalizedHost)) ?? null;
+}
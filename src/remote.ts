@@ -0,0 +1,184 @@
+import { ProviderId, detectProvider, githubProvider } from './providers';
+
+export interface ParsedRemoteUrl {
+    protocol: 'ssh' | 'git' | 'http' | 'https';
+    user?: string;
+    host: string;
+    port?: number;
+    // Repository path without the leading slash, e.g. "org/repo.git"
+    path: string;
+}
+
+// A url.<base>.insteadOf rule from git config
+export interface InsteadOfRule {
+    base: string;
+    prefix: string;
+}
+
+export interface RemoteUrlOptions {
+    // Hostnames of self-hosted instances mapped to the provider that serves them
+    providerHosts?: Record<string, ProviderId>;
+    // Hostnames mapped to the web base URL of an enterprise instance, e.g. https://github.corp.example.com
+    enterpriseHosts?: Record<string, string>;
+    insteadOf?: InsteadOfRule[];
+    // Contents of the SSH client config, used to resolve Host aliases
+    sshConfig?: string;
+}
+
+const PROTOCOLS: Record<string, ParsedRemoteUrl['protocol']> = {
+    'ssh': 'ssh',
+    'git+ssh': 'ssh',
+    'ssh+git': 'ssh',
+    'git': 'git',
+    'http': 'http',
+    'https': 'https'
+};
+
+export function parseRemoteUrl(remoteUrl: string): ParsedRemoteUrl | null {
+    const trimmed = remoteUrl.trim();
+
+    // URL format: scheme://[user[:password]@]host[:port][/path]
+    const urlMatch = trimmed.match(/^([a-z][a-z0-9+.-]*):\/\/(?:([^@/]*)@)?(\[[^\]]+\]|[^/:]*)(?::([^/]*))?(?:\/(.*))?$/i);
+    if (urlMatch) {
+        const [, scheme, credentials, host, portOrPath, rest = ''] = urlMatch;
+        const protocol = PROTOCOLS[scheme.toLowerCase()];
+        if (!protocol || !host) {
+            // file:// and other transports have no web page
+            return null;
+        }
+
+        // ssh://git@host:org/repo.git mixes the URL and SCP-like formats, so a non-numeric "port" is part of the path
+        let port: number | undefined;
+        let repoPath = rest;
+        if (portOrPath && /^\d+$/.test(portOrPath)) {
+            port = Number(portOrPath);
+        } else if (portOrPath) {
+            repoPath = rest ? `${portOrPath}/${rest}` : portOrPath;
+        }
+
+        return {
+            protocol,
+            user: credentials ? decodeURIComponent(credentials.split(':')[0]) || undefined : undefined,
+            host,
+            port,
+            path: repoPath.replace(/^\/+/, '')
+        };
+    }
+
+    // SCP-like SSH format: [user@]host:path. A single letter host is a Windows drive, not a remote.
+    const scpMatch = trimmed.match(/^(?:([^@/]+)@)?([^/:]{2,}):(.+)$/);
+    if (scpMatch) {
+        const [, user, host, repoPath] = scpMatch;
+        return { protocol: 'ssh', user, host, path: repoPath.replace(/^\/+/, '') };
+    }
+
+    return null;
+}
+
+export function parseInsteadOfRules(configOutput: string): InsteadOfRule[] {
+    // Lines from `git config --get-regexp` look like "url.git@github.com:.insteadof gh:"
+    const rules: InsteadOfRule[] = [];
+    for (const line of configOutput.split('\n')) {
+        const match = line.match(/^url\.(.+)\.insteadof (.+)$/i);
+        if (match) {
+            rules.push({ base: match[1], prefix: match[2] });
+        }
+    }
+    return rules;
+}
+
+export function applyInsteadOf(remoteUrl: string, rules: InsteadOfRule[]): string {
+    // Like git, the longest matching prefix wins
+    let best: InsteadOfRule | undefined;
+    for (const rule of rules) {
+        if (remoteUrl.startsWith(rule.prefix) && (!best || rule.prefix.length > best.prefix.length)) {
+            best = rule;
+        }
+    }
+    return best ? best.base + remoteUrl.slice(best.prefix.length) : remoteUrl;
+}
+
+// Matches an ssh_config Host pattern, which supports the * and ? wildcards
+function matchesHostPattern(host: string, pattern: string): boolean {
+    const regex = pattern.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*').replace(/\?/g, '.');
+    return new RegExp(`^${regex}$`, 'i').test(host);
+}
+
+export function resolveSshHostName(alias: string, sshConfig: string): string | null {
+    // Before the first Host line, options apply to every host
+    let matching = true;
+
+    for (const rawLine of sshConfig.split(/\r?\n/)) {
+        const line = rawLine.trim();
+        if (!line || line.startsWith('#')) {
+            continue;
+        }
+
+        const match = line.match(/^(\S+?)\s*(?:=\s*|\s+)(.+)$/);
+        if (!match) {
+            continue;
+        }
+        const keyword = match[1].toLowerCase();
+        const value = match[2].trim();
+
+        if (keyword === 'host') {
+            // A block applies when any pattern matches and no negated pattern does
+            const patterns = value.split(/\s+/).map(pattern => pattern.replace(/^"|"$/g, ''));
+            const negated = patterns.filter(pattern => pattern.startsWith('!'));
+            matching = patterns.some(pattern => !pattern.startsWith('!') && matchesHostPattern(alias, pattern))
+                && !negated.some(pattern => matchesHostPattern(alias, pattern.slice(1)));
+        } else if (keyword === 'match') {
+            // Match blocks depend on runtime conditions we can't evaluate
+            matching = false;
+        } else if (keyword === 'hostname' && matching) {
+            // ssh uses the first value it finds for each option
+            return value.replace(/^"|"$/g, '').replace(/%h/g, alias).replace(/%%/g, '%');
+        }
+    }
+
+    return null;
+}
+
+function findHostEntry<T>(entries: Record<string, T> | undefined, host: string): T | undefined {
+    const entry = Object.entries(entries ?? {}).find(([entryHost]) => entryHost.toLowerCase() === host);
+    return entry?.[1];
+}
+
+// A host we know how to link to, either from the settings or by detection
+function isKnownHost(host: string, options: RemoteUrlOptions): boolean {
+    return findHostEntry(options.enterpriseHosts, host) !== undefined || detectProvider(host, options.providerHosts) !== null;
+}
+
+export function normalizeRemoteUrl(remoteUrl: string, options: RemoteUrlOptions = {}): { provider: ProviderId; url: string } | null {
+    const parsed = parseRemoteUrl(applyInsteadOf(remoteUrl, options.insteadOf ?? []));
+    if (!parsed) {
+        return null;
+    }
+
+    // Hosts like "github-work" usually come from a Host alias in ~/.ssh/config
+    let host = parsed.host.toLowerCase();
+    if (parsed.protocol === 'ssh' && options.sshConfig && !isKnownHost(host, options)) {
+        host = resolveSshHostName(host, options.sshConfig)?.toLowerCase() ?? host;
+    }
+
+    const enterpriseUrl = findHostEntry(options.enterpriseHosts, host);
+    let origin: string;
+    if (enterpriseUrl) {
+        origin = enterpriseUrl.replace(/\/+$/, '');
+    } else if (parsed.protocol === 'http' || parsed.protocol === 'https') {
+        // The web server is the one the remote is cloned from, port included
+        origin = `${parsed.protocol}://${host}${parsed.port ? `:${parsed.port}` : ''}`;
+    } else {
+        // SSH and git:// ports don't serve the web page
+        origin = `https://${host}`;
+    }
+
+    // Enterprise hosts without a configured provider are GitHub Enterprise
+    const provider = detectProvider(host, options.providerHosts) ?? (enterpriseUrl ? githubProvider : null);
+    const url = provider?.webUrl(origin, parsed.path);
+    if (!provider || !url) {
+        // Not a supported hosting provider
+        return null;
+    }
+    return { provider: provider.id, url };
+}
@@ -0,0 +1,221 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { RepoState, DerivedRepoState, createDerivedRepoState, getGitDirectories, getGitRootPath, getInsteadOfRules, isDirectory, readRepoState } from './git';
+
+// The parts of the vscode.git extension API (version 1) read here
+interface GitExtension {
+    enabled: boolean;
+    getAPI(version: 1): GitApi;
+}
+
+interface GitApi {
+    getRepository(uri: vscode.Uri): GitRepository | null;
+}
+
+interface GitRepository {
+    rootUri: vscode.Uri;
+    state: {
+        // Undefined until the repository has been read; name is missing when detached, commit when unborn
+        HEAD: { name?: string; commit?: string; upstream?: { remote: string; name: string } } | undefined;
+        remotes: { name: string; fetchUrl?: string; pushUrl?: string }[];
+        onDidChange: vscode.Event<void>;
+    };
+}
+
+// What the state read from the API depends on: HEAD's branch, commit and upstream, and the remotes
+function getStateKey(repository: GitRepository): string {
+    const head = repository.state.HEAD;
+    return JSON.stringify({
+        name: head?.name,
+        commit: head?.commit,
+        upstream: head?.upstream && [head.upstream.remote, head.upstream.name],
+        remotes: repository.state.remotes.map(remote => [remote.name, remote.fetchUrl, remote.pushUrl])
+    });
+}
+
+// Whether a .git folder or file sits between the file and rootPath. The Git extension reports the
+// enclosing repository for repositories nested too deep for it to have opened, or when detection is
+// off, so those are left to the git CLI, which finds the innermost repository.
+async function isInNestedRepository(filePath: string, rootPath: string): Promise<boolean> {
+    let folder = await isDirectory(filePath) ? filePath : path.dirname(filePath);
+    for (;;) {
+        const relative = path.relative(rootPath, folder);
+        if (!relative || relative.startsWith('..') || path.isAbsolute(relative)) {
+            return false;
+        }
+        try {
+            await fs.promises.stat(path.join(folder, '.git'));
+            return true;
+        } catch (error) {
+            // Not the root of a repository
+        }
+        folder = path.dirname(folder);
+    }
+}
+
+export interface RepoStateService extends vscode.Disposable {
+    // The state of the repository containing the file, or null when it is not in one
+    getRepoState(filePath: string): Promise<RepoState | null>;
+    // Fires with the root of a repository whose HEAD, branches, remotes or config changed
+    onDidChange: vscode.Event<string>;
+    // Drops the cached state and fires onDidChange, for changes the watchers can't see
+    refresh(rootPath: string): void;
+}
+
+// Caches repository state per root so commands don't run git every time. Repositories the
+// vscode.git extension has open are read from its API and refreshed when it reports a change to them;
+// others are read with the git CLI and refreshed when HEAD, the branches or the config change.
+// What getRepoInfo derives from a state, like the branch links point to, is cached with it.
+export function createRepoStateService(): RepoStateService {
+    const cache = new Map<string, { state: Promise<RepoState>; watchers: vscode.Disposable[] }>();
+    let gitApi: Promise<GitApi | null> | undefined;
+    const changed = new vscode.EventEmitter<string>();
+
+    function invalidate(rootPath: string): void {
+        cache.get(rootPath)?.watchers.forEach(watcher => watcher.dispose());
+        cache.delete(rootPath);
+    }
+
+    function refresh(rootPath: string): void {
+        invalidate(rootPath);
+        changed.fire(rootPath);
+    }
+
+    function remember(rootPath: string, state: Promise<RepoState>, watchers: vscode.Disposable[]): Promise<RepoState> {
+        const entry = { state, watchers };
+        cache.set(rootPath, entry);
+        // Failed reads are retried next time
+        state.catch(() => {
+            if (cache.get(rootPath) === entry) {
+                invalidate(rootPath);
+            }
+        });
+        return state;
+    }
+
+    async function loadGitApi(): Promise<GitApi | null> {
+        try {
+            const extension = vscode.extensions.getExtension<GitExtension>('vscode.git');
+            const exports = extension && (extension.isActive ? extension.exports : await extension.activate());
+            return exports?.enabled ? exports.getAPI(1) : null;
+        } catch (error) {
+            // Disabled or failed to activate
+            return null;
+        }
+    }
+
+    async function fromGitApi(filePath: string): Promise<RepoState | null> {
+        const repository = (await (gitApi ??= loadGitApi()))?.getRepository(vscode.Uri.file(filePath));
+        const head = repository?.state.HEAD;
+        if (!repository || !head) {
+            return null;
+        }
+
+        const rootPath = repository.rootUri.fsPath;
+        if (await isInNestedRepository(filePath, rootPath)) {
+            return null;
+        }
+
+        const cached = cache.get(rootPath);
+        if (cached) {
+            return cached.state;
+        }
+
+        const derived = createDerivedRepoState(rootPath);
+        const state = (async (): Promise<RepoState> => ({
+            rootPath,
+            commit: head.commit ?? null,
+            branch: head.name ?? head.commit ?? null,
+            upstreamRemote: head.upstream?.remote ?? null,
+            upstreamBranch: head.upstream?.name ?? null,
+            remotes: repository.state.remotes.flatMap(remote => {
+                const url = remote.fetchUrl ?? remote.pushUrl;
+                return url ? [{ name: remote.name, url }] : [];
+            }),
+            // The API doesn't expose insteadOf rules
+            insteadOf: await getInsteadOfRules(rootPath),
+            derived
+        }))();
+
+        // The event also fires for every change to the working tree or index, which don't affect the state
+        const key = getStateKey(repository);
+        const watchers = [repository.state.onDidChange(() => {
+            if (getStateKey(repository) !== key) {
+                refresh(rootPath);
+            }
+        })];
+        remember(rootPath, state, watchers);
+
+        // HEAD and the remotes come from the API, the rest from files
+        await watchRepository(rootPath, watchers, derived, '{config,packed-refs,refs/remotes/**}');
+        return state;
+    }
+
+    async function fromCli(filePath: string): Promise<RepoState | null> {
+        const rootPath = await getGitRootPath(filePath);
+        if (!rootPath) {
+            return null;
+        }
+
+        const cached = cache.get(rootPath);
+        if (cached) {
+            return cached.state;
+        }
+
+        // Cached before the watchers exist, so concurrent calls share the read
+        const watchers: vscode.Disposable[] = [];
+        const derived = createDerivedRepoState(rootPath);
+        const state = remember(rootPath, readRepoState(rootPath).then(read => ({ ...read, derived })), watchers);
+
+        // Commits and checkouts update HEAD or its reflog
+        await watchRepository(rootPath, watchers, derived, '{config,packed-refs,refs/heads/**,refs/remotes/**}', '{HEAD,logs/HEAD}');
+        return state;
+    }
+
+    // Refreshes the repository when files of its common directory matching commonFiles change, where
+    // branches, remote-tracking branches (which resolveBranch depends on) and the config may live for
+    // a linked worktree, or files of its own git directory matching gitDirFiles. A submodule also
+    // watches the superproject's HEAD, whose tree holds the commit it pins.
+    async function watchRepository(rootPath: string, watchers: vscode.Disposable[], derived: DerivedRepoState, commonFiles: string, gitDirFiles?: string): Promise<void> {
+        const directories = await getGitDirectories(rootPath);
+        const superprojectPath = await derived.superprojectPath;
+        const superproject = superprojectPath ? await getGitDirectories(superprojectPath) : null;
+        if (cache.get(rootPath)?.watchers !== watchers) {
+            // Refreshed in the meantime, the new entry has its own watchers
+            return;
+        }
+
+        const patterns: vscode.RelativePattern[] = [];
+        if (directories) {
+            patterns.push(new vscode.RelativePattern(vscode.Uri.file(directories.commonDir), commonFiles));
+            if (gitDirFiles) {
+                patterns.push(new vscode.RelativePattern(vscode.Uri.file(directories.gitDir), gitDirFiles));
+            }
+        }
+        if (superproject) {
+            patterns.push(new vscode.RelativePattern(vscode.Uri.file(superproject.gitDir), '{HEAD,logs/HEAD}'));
+        }
+        for (const pattern of patterns) {
+            const watcher = vscode.workspace.createFileSystemWatcher(pattern);
+            watchers.push(
+                watcher,
+                watcher.onDidChange(() => refresh(rootPath)),
+                watcher.onDidCreate(() => refresh(rootPath)),
+                watcher.onDidDelete(() => refresh(rootPath))
+            );
+        }
+    }
+
+    return {
+        getRepoState: async filePath => await fromGitApi(filePath) ?? await fromCli(filePath),
+        onDidChange: changed.event,
+        refresh,
+        dispose: () => {
+            for (const rootPath of [...cache.keys()]) {
+                invalidate(rootPath);
+            }
+            changed.dispose();
+        }
+    };
+}
@@ -0,0 +1,66 @@
+import * as vscode from 'vscode';
+import { RepoInfo } from './git';
+import { isCommitSha } from './providers';
+
+// The remote and ref links point to, e.g. org/repo@main, or org/repo@1a2b3c4 for a commit
+export function getRepoLabel(repoInfo: RepoInfo): string {
+    let repoPath = repoInfo.remoteUrl;
+    try {
+        // Azure DevOps puts _git between the project and the repository
+        repoPath = new URL(repoInfo.remoteUrl).pathname.replace(/^\/|\/$/g, '').replace('/_git/', '/');
+    } catch (error) {
+        // Not a URL, show it as it is
+    }
+    const ref = isCommitSha(repoInfo.branch) ? repoInfo.branch.slice(0, 7) : repoInfo.branch;
+    return `${repoPath}@${ref}`;
+}
+
+// Shows where links from the active editor point to and opens the current line when clicked.
+// Refreshed when the active editor, the repository or the settings change; hidden for
+// documents outside a hosted repository and while the statusBarItem setting is off.
+export function createStatusBar(resolveRepoInfo: (uri: vscode.Uri) => Promise<RepoInfo | null>, onDidChangeRepoState: vscode.Event<string>): vscode.Disposable {
+    const item = vscode.window.createStatusBarItem('open-in-github-simple.statusBar', vscode.StatusBarAlignment.Left, 0);
+    item.name = 'Open in Github';
+    item.command = 'open-in-github-simple.openInGithub';
+
+    // Editors can change faster than git answers, only the latest update is shown
+    let generation = 0;
+
+    async function update(): Promise<void> {
+        const current = ++generation;
+        const uri = vscode.window.activeTextEditor?.document.uri;
+        const enabled = vscode.workspace.getConfiguration('open-in-github-simple').get<boolean>('statusBarItem', false);
+
+        let repoInfo: RepoInfo | null = null;
+        try {
+            repoInfo = enabled && uri ? await resolveRepoInfo(uri) : null;
+        } catch (error) {
+            // Shown as outside a repository
+        }
+        if (current !== generation) {
+            return;
+        }
+
+        if (!repoInfo) {
+            item.hide();
+            return;
+        }
+        item.text = `$(github) ${getRepoLabel(repoInfo)}`;
+        item.tooltip = `Open the current line on ${repoInfo.remoteName}/${repoInfo.branch}`;
+        item.show();
+    }
+
+    const disposables = [
+        item,
+        vscode.window.onDidChangeActiveTextEditor(() => update()),
+        onDidChangeRepoState(() => update()),
+        vscode.workspace.onDidChangeConfiguration(event => {
+            if (event.affectsConfiguration('open-in-github-simple')) {
+                update();
+            }
+        })
+    ];
+    update();
+
+    return vscode.Disposable.from(...disposables);
+}
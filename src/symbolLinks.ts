@@ -0,0 +1,121 @@
+import * as vscode from 'vscode';
+
+// Passed to the open and copy commands by CodeLenses and hovers to link a symbol instead of the selection.
+// Hover command links are JSON, so the document is identified by its URI string.
+export interface SymbolLinkArgs {
+    uri: string;
+    // 1-based, the whole symbol including its body
+    startLine: number;
+    endLine: number;
+}
+
+// Symbols worth a link of their own; variables, fields and the like would crowd the editor
+const LINKED_KINDS = new Set([
+    vscode.SymbolKind.Class,
+    vscode.SymbolKind.Constructor,
+    vscode.SymbolKind.Enum,
+    vscode.SymbolKind.Function,
+    vscode.SymbolKind.Interface,
+    vscode.SymbolKind.Method,
+    vscode.SymbolKind.Namespace,
+    vscode.SymbolKind.Struct
+]);
+
+const OPEN_COMMAND = 'open-in-github-simple.openInGithub';
+const COPY_COMMAND = 'open-in-github-simple.copyUrl';
+
+export function isSymbolLinkArgs(arg: unknown): arg is SymbolLinkArgs {
+    return typeof arg === 'object' && arg !== null &&
+        typeof (arg as SymbolLinkArgs).uri === 'string' &&
+        typeof (arg as SymbolLinkArgs).startLine === 'number' &&
+        typeof (arg as SymbolLinkArgs).endLine === 'number';
+}
+
+interface LinkedSymbol {
+    // The whole symbol, and the part a hover should be shown for (usually its name)
+    range: vscode.Range;
+    selectionRange: vscode.Range;
+}
+
+// Language servers return either a tree of DocumentSymbols or a flat list of SymbolInformation
+async function getLinkedSymbols(document: vscode.TextDocument): Promise<LinkedSymbol[]> {
+    const symbols = await vscode.commands.executeCommand<(vscode.DocumentSymbol | vscode.SymbolInformation)[] | undefined>(
+        'vscode.executeDocumentSymbolProvider', document.uri) ?? [];
+
+    const linked: LinkedSymbol[] = [];
+    const visit = (symbol: vscode.DocumentSymbol | vscode.SymbolInformation) => {
+        if ('children' in symbol) {
+            if (LINKED_KINDS.has(symbol.kind)) {
+                linked.push({ range: symbol.range, selectionRange: symbol.selectionRange });
+            }
+            symbol.children.forEach(visit);
+        } else if (LINKED_KINDS.has(symbol.kind)) {
+            linked.push({ range: symbol.location.range, selectionRange: symbol.location.range });
+        }
+    };
+    symbols.forEach(visit);
+    return linked;
+}
+
+function toArgs(document: vscode.TextDocument, range: vscode.Range): SymbolLinkArgs {
+    return { uri: document.uri.toString(), startLine: range.start.line + 1, endLine: range.end.line + 1 };
+}
+
+function isEnabled(setting: 'symbolCodeLens' | 'symbolHover'): boolean {
+    return vscode.workspace.getConfiguration('open-in-github-simple').get<boolean>(setting, false);
+}
+
+// "Open on GitHub" and "Copy link" above functions, classes and other symbols (symbolCodeLens setting)
+// and in the hover of their names (symbolHover setting)
+export function registerSymbolLinks(): vscode.Disposable {
+    const codeLensesChanged = new vscode.EventEmitter<void>();
+    const selector: vscode.DocumentSelector = [{ scheme: 'file' }, { scheme: 'vscode-remote' }];
+
+    const codeLensProvider: vscode.CodeLensProvider = {
+        onDidChangeCodeLenses: codeLensesChanged.event,
+        provideCodeLenses: async document => {
+            if (!isEnabled('symbolCodeLens')) {
+                return [];
+            }
+            return (await getLinkedSymbols(document)).flatMap(symbol => {
+                const args = toArgs(document, symbol.range);
+                return [
+                    new vscode.CodeLens(symbol.selectionRange, { title: 'Open on GitHub', command: OPEN_COMMAND, arguments: [args] }),
+                    new vscode.CodeLens(symbol.selectionRange, { title: 'Copy link', command: COPY_COMMAND, arguments: [args] })
+                ];
+            });
+        }
+    };
+
+    const hoverProvider: vscode.HoverProvider = {
+        provideHover: async (document, position) => {
+            if (!isEnabled('symbolHover')) {
+                return undefined;
+            }
+
+            // The innermost symbol, so a method links the method rather than its class
+            const symbol = (await getLinkedSymbols(document))
+                .filter(candidate => candidate.selectionRange.contains(position))
+                .sort((a, b) => (a.range.end.line - a.range.start.line) - (b.range.end.line - b.range.start.line))[0];
+            if (!symbol) {
+                return undefined;
+            }
+
+            const query = encodeURIComponent(JSON.stringify([toArgs(document, symbol.range)]));
+            const markdown = new vscode.MarkdownString(`[$(github) Open on GitHub](command:${OPEN_COMMAND}?${query}) | [Copy link](command:${COPY_COMMAND}?${query})`, true);
+            markdown.isTrusted = { enabledCommands: [OPEN_COMMAND, COPY_COMMAND] };
+            return new vscode.Hover(markdown, symbol.selectionRange);
+        }
+    };
+
+    return vscode.Disposable.from(
+        codeLensesChanged,
+        vscode.languages.registerCodeLensProvider(selector, codeLensProvider),
+        vscode.languages.registerHoverProvider(selector, hoverProvider),
+        vscode.workspace.onDidChangeConfiguration(event => {
+            if (event.affectsConfiguration('open-in-github-simple.symbolCodeLens')) {
+                codeLensesChanged.fire();
+            }
+        })
+    );
+}
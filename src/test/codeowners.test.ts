@@ -0,0 +1,228 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import * as codeowners from '../codeowners';
+import { RepoInfo } from '../git';
+
+suite('CODEOWNERS Tests', () => {
+    function matches(pattern: string, relativePath: string): boolean {
+        return codeowners.compileCodeownersPattern(pattern)?.test(relativePath) ?? false;
+    }
+
+    suite('compileCodeownersPattern', () => {
+        test('* should match every file', () => {
+            assert.ok(matches('*', 'README.md'));
+            assert.ok(matches('*', 'src/deep/file.ts'));
+        });
+
+        test('Extensions should match at any depth', () => {
+            assert.ok(matches('*.js', 'index.js'));
+            assert.ok(matches('*.js', 'src/lib/index.js'));
+            assert.ok(!matches('*.js', 'src/index.ts'));
+            assert.ok(!matches('*.js', 'src/index.json'));
+        });
+
+        test('Names without a slash should match files and directories at any depth', () => {
+            assert.ok(matches('build', 'build'));
+            assert.ok(matches('build', 'build/output.txt'));
+            assert.ok(matches('build', 'packages/app/build/output.txt'));
+            assert.ok(!matches('build', 'builder/output.txt'));
+            assert.ok(!matches('build', 'rebuild'));
+        });
+
+        test('A leading slash should anchor the pattern to the root', () => {
+            assert.ok(matches('/build', 'build/output.txt'));
+            assert.ok(!matches('/build', 'packages/build/output.txt'));
+            assert.ok(matches('/README.md', 'README.md'));
+            assert.ok(!matches('/README.md', 'docs/README.md'));
+        });
+
+        test('A slash in the middle should anchor the pattern to the root', () => {
+            assert.ok(matches('docs/api', 'docs/api/index.md'));
+            assert.ok(!matches('docs/api', 'website/docs/api/index.md'));
+        });
+
+        test('A trailing slash should match directories at any depth but not files', () => {
+            assert.ok(matches('apps/', 'apps/web/index.ts'));
+            assert.ok(matches('apps/', 'packages/apps/index.ts'));
+            assert.ok(!matches('apps/', 'apps'));
+            assert.ok(matches('/build/logs/', 'build/logs/today.log'));
+            assert.ok(!matches('/build/logs/', 'src/build/logs/today.log'));
+        });
+
+        test('/* should match files directly in a directory only', () => {
+            assert.ok(matches('docs/*', 'docs/getting-started.md'));
+            assert.ok(!matches('docs/*', 'docs/build-app/troubleshooting.md'));
+            assert.ok(matches('/docs/*.md', 'docs/index.md'));
+            assert.ok(!matches('/docs/*.md', 'docs/guides/index.md'));
+        });
+
+        test('** should match any number of directories', () => {
+            assert.ok(matches('**/logs', 'logs/today.log'));
+            assert.ok(matches('**/logs', 'build/logs/today.log'));
+            assert.ok(matches('**/logs', 'deeply/nested/logs'));
+            assert.ok(matches('docs/**/*.md', 'docs/index.md'));
+            assert.ok(matches('docs/**/*.md', 'docs/guides/setup/index.md'));
+            assert.ok(!matches('docs/**/*.md', 'src/docs/index.md'));
+            assert.ok(matches('docs/**', 'docs/guides/setup/index.md'));
+            assert.ok(!matches('docs/**', 'docs'));
+        });
+
+        test('? should match one character within a segment', () => {
+            assert.ok(matches('file?.txt', 'file1.txt'));
+            assert.ok(!matches('file?.txt', 'file10.txt'));
+            assert.ok(!matches('a?b', 'a/b'));
+        });
+
+        test('* should not cross directories', () => {
+            assert.ok(matches('src/*.ts', 'src/index.ts'));
+            assert.ok(!matches('src/*.ts', 'src/lib/index.ts'));
+        });
+
+        test('Regular expression characters should be matched literally', () => {
+            assert.ok(matches('file(1).txt', 'file(1).txt'));
+            assert.ok(!matches('file.txt', 'fileXtxt'));
+            assert.ok(matches('a+b$', 'a+b$'));
+        });
+
+        test('A lone slash should match the whole repository', () => {
+            assert.ok(matches('/', 'src/index.ts'));
+        });
+
+        test('Negation and character ranges should be unsupported', () => {
+            assert.strictEqual(codeowners.compileCodeownersPattern('!build'), null);
+            assert.strictEqual(codeowners.compileCodeownersPattern('file[0-9].txt'), null);
+        });
+    });
+
+    suite('parseCodeowners', () => {
+        test('parseCodeowners should read patterns, owners and line numbers', () => {
+            const rules = codeowners.parseCodeowners('# Owners\n\n*       @org/everyone\n/docs/ @writer docs@example.com\n');
+            assert.deepStrictEqual(rules.map(({ pattern, owners, line }) => ({ pattern, owners, line })), [
+                { pattern: '*', owners: ['@org/everyone'], line: 3 },
+                { pattern: '/docs/', owners: ['@writer', 'docs@example.com'], line: 4 }
+            ]);
+        });
+
+        test('parseCodeowners should drop inline comments', () => {
+            const [rule] = codeowners.parseCodeowners('*.ts @frontend # TypeScript');
+            assert.deepStrictEqual(rule.owners, ['@frontend']);
+        });
+
+        test('parseCodeowners should handle escaped spaces', () => {
+            const [rule] = codeowners.parseCodeowners('my\\ file.txt @owner\r\n');
+            assert.strictEqual(rule.pattern, 'my file.txt');
+            assert.ok(rule.matcher?.test('docs/my file.txt'));
+        });
+
+        test('parseCodeowners should treat # as a comment even when escaped, like GitHub', () => {
+            assert.deepStrictEqual(codeowners.parseCodeowners('#notes.md @notes\n  # indented comment'), []);
+
+            const rules = codeowners.parseCodeowners('\\#notes.md @notes');
+            assert.strictEqual(rules[0].matcher, null);
+            assert.strictEqual(codeowners.findCodeownersRule(rules, '#notes.md'), null);
+        });
+
+        test('parseCodeowners should keep rules without owners', () => {
+            const [rule] = codeowners.parseCodeowners('/generated/');
+            assert.deepStrictEqual(rule.owners, []);
+        });
+    });
+
+    suite('findCodeownersRule', () => {
+        const rules = codeowners.parseCodeowners([
+            '*                @org/everyone',
+            '*.js             @org/frontend',
+            '/docs/           @writer',
+            '/docs/generated/',
+            '!/docs/keep.md   @ignored'
+        ].join('\n'));
+
+        test('findCodeownersRule should use the last matching rule', () => {
+            assert.strictEqual(codeowners.findCodeownersRule(rules, 'src/index.js')?.line, 2);
+            assert.strictEqual(codeowners.findCodeownersRule(rules, 'src/index.ts')?.line, 1);
+            assert.strictEqual(codeowners.findCodeownersRule(rules, 'docs/guide.js')?.line, 3);
+        });
+
+        test('findCodeownersRule should return rules that leave files unowned', () => {
+            assert.deepStrictEqual(codeowners.findCodeownersRule(rules, 'docs/generated/api.md')?.owners, []);
+        });
+
+        test('findCodeownersRule should skip unsupported patterns', () => {
+            assert.strictEqual(codeowners.findCodeownersRule(rules, 'docs/keep.md')?.line, 3);
+        });
+
+        test('findCodeownersRule should accept Windows separators', () => {
+            assert.strictEqual(codeowners.findCodeownersRule(rules, 'docs\\guide.md')?.line, 3);
+        });
+
+        test('findCodeownersRule should return null when nothing matches', () => {
+            assert.strictEqual(codeowners.findCodeownersRule(codeowners.parseCodeowners('/src/ @dev'), 'README.md'), null);
+        });
+    });
+
+    suite('readCodeowners', () => {
+        let rootPath: string;
+
+        setup(() => {
+            rootPath = fs.mkdtempSync(path.join(os.tmpdir(), 'open-in-github-simple-'));
+        });
+
+        teardown(() => {
+            fs.rmSync(rootPath, { recursive: true, force: true });
+        });
+
+        test('readCodeowners should prefer .github, then the root, then docs', async () => {
+            fs.mkdirSync(path.join(rootPath, 'docs'));
+            fs.writeFileSync(path.join(rootPath, 'docs', 'CODEOWNERS'), '* @docs');
+            assert.strictEqual((await codeowners.readCodeowners(rootPath))?.path, 'docs/CODEOWNERS');
+
+            fs.writeFileSync(path.join(rootPath, 'CODEOWNERS'), '* @root');
+            assert.strictEqual((await codeowners.readCodeowners(rootPath))?.path, 'CODEOWNERS');
+
+            fs.mkdirSync(path.join(rootPath, '.github'));
+            fs.writeFileSync(path.join(rootPath, '.github', 'CODEOWNERS'), '* @github');
+            const found = await codeowners.readCodeowners(rootPath);
+            assert.strictEqual(found?.path, '.github/CODEOWNERS');
+            assert.deepStrictEqual(found?.rules[0].owners, ['@github']);
+        });
+
+        test('readCodeowners should return null without a CODEOWNERS file', async () => {
+            assert.strictEqual(await codeowners.readCodeowners(rootPath), null);
+        });
+    });
+
+    suite('getOwnerUrl', () => {
+        const repoInfo: RepoInfo = {
+            provider: 'github',
+            remoteName: 'origin',
+            remoteUrl: 'https://github.example.com/org/repo',
+            branch: 'main',
+            branchSource: 'remote',
+            commit: null,
+            rootPath: '/path/to/repo'
+        };
+
+        test('getOwnerUrl should link users and teams on the repository host', () => {
+            assert.strictEqual(codeowners.getOwnerUrl(repoInfo, '@octocat'), 'https://github.example.com/octocat');
+            assert.strictEqual(codeowners.getOwnerUrl(repoInfo, '@org/reviewers'), 'https://github.example.com/orgs/org/teams/reviewers');
+        });
+
+        test('getOwnerUrl should link GitLab groups and Gitea teams', () => {
+            assert.strictEqual(
+                codeowners.getOwnerUrl({ ...repoInfo, provider: 'gitlab', remoteUrl: 'https://gitlab.com/group/repo' }, '@group/subgroup'),
+                'https://gitlab.com/group/subgroup'
+            );
+            assert.strictEqual(
+                codeowners.getOwnerUrl({ ...repoInfo, provider: 'gitea', remoteUrl: 'https://codeberg.org/org/repo' }, '@org/team'),
+                'https://codeberg.org/org/org/teams/team'
+            );
+        });
+
+        test('getOwnerUrl should turn email addresses into mailto links', () => {
+            assert.strictEqual(codeowners.getOwnerUrl(repoInfo, 'dev@example.com'), 'mailto:dev@example.com');
+        });
+    });
+});
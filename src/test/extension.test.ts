@@ -37,17 +37,21 @@ suite('Extension Test Suite', () => {
 
 	test('Command should open URL when editor is available', async () => {
 		// For this test we'll mock the editor and Git functionality
-		const mockDocument = { uri: { fsPath: '/path/to/file.ts' } };
+		const mockDocument = { uri: { fsPath: '/path/to/file.ts' }, getText: () => '' };
 		const mockSelection = { start: { line: 10 }, end: { line: 10 }, isEmpty: true }; // 0-based line number
-		const mockEditor = { document: mockDocument, selection: mockSelection };
+		const mockEditor = { document: mockDocument, selection: mockSelection, selections: [mockSelection] };
 		
 		// Mock activeTextEditor
 		sandbox.stub(vscode.window, 'activeTextEditor').value(mockEditor);
 		
 		// Mock the git functions
 		const mockRepoInfo = {
+			provider: 'github' as const,
+			remoteName: 'origin',
 			remoteUrl: 'https://github.com/username/repo',
 			branch: 'main',
+			branchSource: 'remote' as const,
+			commit: 'abcdef1234567890',
 			rootPath: '/path'
 		};
 		
@@ -66,4 +70,71 @@ suite('Extension Test Suite', () => {
 		
 		// We've removed the information message in favor of console.log, so no need to test for it
 	});
+
+	test('Permalink command should open a URL pinned to the commit', async () => {
+		const mockDocument = { uri: { fsPath: '/path/to/file.ts' }, getText: () => '' };
+		const mockSelection = { start: { line: 10 }, end: { line: 10 }, isEmpty: true };
+		const mockEditor = { document: mockDocument, selection: mockSelection, selections: [mockSelection] };
+
+		sandbox.stub(vscode.window, 'activeTextEditor').value(mockEditor);
+
+		const mockRepoInfo = {
+			provider: 'github' as const,
+			remoteName: 'origin',
+			remoteUrl: 'https://github.com/username/repo',
+			branch: 'main',
+			branchSource: 'remote' as const,
+			commit: 'abcdef1234567890',
+			rootPath: '/path'
+		};
+
+		sandbox.stub(gitModule, 'getRepoInfo').resolves(mockRepoInfo);
+		sandbox.stub(gitModule, 'isCommitPushed').resolves(true);
+
+		const openExternalStub = sandbox.stub(vscode.env, 'openExternal').resolves(true);
+
+		await vscode.commands.executeCommand('open-in-github-simple.openPermalink');
+
+		assert.strictEqual(openExternalStub.calledOnce, true);
+		assert.strictEqual(
+			openExternalStub.firstCall.args[0].toString(true),
+			'https://github.com/username/repo/blob/abcdef1234567890/to/file.ts#L11'
+		);
+	});
+
+	test('Command should link the revision shown by a git: document', async () => {
+		const commit = '1234567890abcdef1234567890abcdef12345678';
+		const uri = vscode.Uri.from({
+			scheme: 'git',
+			path: '/path/to/file.ts',
+			query: JSON.stringify({ path: '/path/to/file.ts', ref: 'HEAD~1' })
+		});
+		const mockDocument = { uri, getText: () => '' };
+		const mockSelection = { start: { line: 4 }, end: { line: 6 }, isEmpty: false };
+		sandbox.stub(vscode.window, 'activeTextEditor').value({ document: mockDocument, selection: mockSelection, selections: [mockSelection] });
+
+		const mockRepoInfo = {
+			provider: 'github' as const,
+			remoteName: 'origin',
+			remoteUrl: 'https://github.com/username/repo',
+			branch: 'main',
+			branchSource: 'remote' as const,
+			commit: 'abcdef1234567890',
+			rootPath: '/path'
+		};
+
+		sandbox.stub(gitModule, 'getRepoInfo').resolves(mockRepoInfo);
+		const resolveCommitStub = sandbox.stub(gitModule, 'resolveCommit').resolves(commit);
+		sandbox.stub(gitModule, 'isCommitPushed').resolves(true);
+
+		const openExternalStub = sandbox.stub(vscode.env, 'openExternal').resolves(true);
+
+		await vscode.commands.executeCommand('open-in-github-simple.openInGithub');
+
+		assert.strictEqual(resolveCommitStub.firstCall.args[1], 'HEAD~1');
+		assert.strictEqual(
+			openExternalStub.firstCall.args[0].toString(true),
+			`https://github.com/username/repo/blob/${commit}/to/file.ts#L5-L7`
+		);
+	});
 });
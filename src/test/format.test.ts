@@ -0,0 +1,68 @@
+import * as assert from 'assert';
+
+import * as format from '../format';
+
+suite('Link Format Tests', () => {
+    const values: format.LinkValues = {
+        url: 'https://github.com/username/repo/blob/main/src/file.ts#L10-L20',
+        path: 'src/file.ts',
+        startLine: 10,
+        endLine: 20,
+        code: 'const a = 1;\nconst b = 2;',
+        languageId: 'typescript'
+    };
+
+    test('formatLink should produce the plain URL', () => {
+        assert.strictEqual(format.formatLink(format.DEFAULT_TEMPLATES.url, values), values.url);
+    });
+
+    test('formatLink should produce a Markdown link', () => {
+        assert.strictEqual(
+            format.formatLink(format.DEFAULT_TEMPLATES.markdown, values),
+            '[src/file.ts#L10-L20](https://github.com/username/repo/blob/main/src/file.ts#L10-L20)'
+        );
+    });
+
+    test('formatLink should produce a Markdown link with a fenced code block', () => {
+        assert.strictEqual(
+            format.formatLink(format.DEFAULT_TEMPLATES.markdownSnippet, values),
+            '[src/file.ts#L10-L20](https://github.com/username/repo/blob/main/src/file.ts#L10-L20)\n\n```typescript\nconst a = 1;\nconst b = 2;\n```'
+        );
+    });
+
+    test('formatLink should produce an HTML anchor', () => {
+        assert.strictEqual(
+            format.formatLink(format.DEFAULT_TEMPLATES.html, values),
+            '<a href="https://github.com/username/repo/blob/main/src/file.ts#L10-L20">src/file.ts#L10-L20</a>'
+        );
+    });
+
+    test('formatLink should escape values placed in an HTML anchor', () => {
+        const unsafe = { ...values, url: 'https://github.com/username/repo/blob/main/a%20%26%20b.ts?x=1&y="2"', path: 'docs/<a & "b">.ts' };
+        assert.strictEqual(
+            format.formatLink(format.DEFAULT_TEMPLATES.html, unsafe, format.escapeHtml),
+            '<a href="https://github.com/username/repo/blob/main/a%20%26%20b.ts?x=1&amp;y=&quot;2&quot;">docs/&lt;a &amp; &quot;b&quot;&gt;.ts#L10-L20</a>'
+        );
+    });
+
+    test('formatLink should use a single line label when the range is one line', () => {
+        const singleLine = { ...values, endLine: 10 };
+        assert.strictEqual(format.formatLink('${path}#${lines}', singleLine), 'src/file.ts#L10');
+    });
+
+    test('formatLink should drop the line label when there are no lines', () => {
+        const fileOnly = { url: 'https://github.com/username/repo/tree/main/src', path: 'src' };
+        assert.strictEqual(format.formatLink(format.DEFAULT_TEMPLATES.markdown, fileOnly), '[src](https://github.com/username/repo/tree/main/src)');
+    });
+
+    test('formatLink should leave unknown variables untouched', () => {
+        assert.strictEqual(format.formatLink('${url} ${nope} ${constructor}', values), `${values.url} \${nope} \${constructor}`);
+    });
+
+    test('getFenceLanguage should map VS Code language ids to fence info strings', () => {
+        assert.strictEqual(format.getFenceLanguage('typescriptreact'), 'tsx');
+        assert.strictEqual(format.getFenceLanguage('python'), 'python');
+        assert.strictEqual(format.getFenceLanguage('plaintext'), '');
+        assert.strictEqual(format.getFenceLanguage(undefined), '');
+    });
+});
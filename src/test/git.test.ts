@@ -24,8 +24,12 @@ suite('Git Functionality Tests', () => {
 
     test('buildGitHubUrl should construct the correct URL', () => {
         const repoInfo: git.RepoInfo = {
+            provider: 'github',
+            remoteName: 'origin',
             remoteUrl: 'https://github.com/username/repo',
             branch: 'main',
+            branchSource: 'remote',
+            commit: 'abcdef1234567890',
             rootPath: mockRootPath
         };
 
@@ -38,8 +42,12 @@ suite('Git Functionality Tests', () => {
 
     test('buildGitHubUrl should construct the correct URL with line range', () => {
         const repoInfo: git.RepoInfo = {
+            provider: 'github',
+            remoteName: 'origin',
             remoteUrl: 'https://github.com/username/repo',
             branch: 'main',
+            branchSource: 'remote',
+            commit: 'abcdef1234567890',
             rootPath: mockRootPath
         };
 
@@ -53,8 +61,12 @@ suite('Git Functionality Tests', () => {
 
     test('buildGitHubUrl should handle errors gracefully', () => {
         const repoInfo: git.RepoInfo = {
+            provider: 'github',
+            remoteName: 'origin',
             remoteUrl: 'https://github.com/username/repo',
             branch: 'main',
+            branchSource: 'remote',
+            commit: 'abcdef1234567890',
             rootPath: mockRootPath
         };
 
@@ -63,6 +75,166 @@ suite('Git Functionality Tests', () => {
         assert.strictEqual(url, null);
     });
 
+    test('buildGitHubUrl should build the blame, history, raw and commit views', () => {
+        const repoInfo: git.RepoInfo = {
+            provider: 'github',
+            remoteName: 'origin',
+            remoteUrl: 'https://github.com/username/repo',
+            branch: 'main',
+            branchSource: 'remote',
+            commit: 'abcdef1234567890',
+            rootPath: mockRootPath
+        };
+        const filePath = path.join(mockRootPath, 'src', 'file.ts');
+        const sha = 'abcdef1234567890abcdef1234567890abcdef12';
+
+        assert.strictEqual(
+            git.buildGitHubUrl(repoInfo, filePath, 42, 50, 'main', 'blame'),
+            'https://github.com/username/repo/blame/main/src/file.ts#L42-L50'
+        );
+        assert.strictEqual(git.buildGitHubUrl(repoInfo, filePath, 42, 50, 'main', 'history'), 'https://github.com/username/repo/commits/main/src/file.ts');
+        assert.strictEqual(git.buildGitHubUrl(repoInfo, filePath, 42, 50, 'main', 'raw'), 'https://github.com/username/repo/raw/main/src/file.ts');
+        assert.strictEqual(
+            git.buildGitHubUrl(repoInfo, filePath, 42, undefined, sha, 'commit'),
+            `https://github.com/username/repo/commit/${sha}#diff-bc9705d0f7a567399044dfc66ccc82d4d9aa1cff116842a0094d54e463c9ecbcR42`
+        );
+    });
+
+    test('buildGitHubPermalink should pin the URL to the commit', () => {
+        const repoInfo: git.RepoInfo = {
+            provider: 'github',
+            remoteName: 'origin',
+            remoteUrl: 'https://github.com/username/repo',
+            branch: 'main',
+            branchSource: 'remote',
+            commit: 'abcdef1234567890',
+            rootPath: mockRootPath
+        };
+
+        const filePath = path.join(mockRootPath, 'src', 'file.ts');
+
+        const url = git.buildGitHubPermalink(repoInfo, filePath, 42, 50);
+        assert.strictEqual(url, 'https://github.com/username/repo/blob/abcdef1234567890/src/file.ts#L42-L50');
+    });
+
+    test('buildGitHubPermalink should return null without a commit', () => {
+        const repoInfo: git.RepoInfo = {
+            provider: 'github',
+            remoteName: 'origin',
+            remoteUrl: 'https://github.com/username/repo',
+            branch: 'main',
+            branchSource: 'remote',
+            commit: null,
+            rootPath: mockRootPath
+        };
+
+        const url = git.buildGitHubPermalink(repoInfo, path.join(mockRootPath, 'file.ts'), 1);
+        assert.strictEqual(url, null);
+    });
+
+    test('buildGitHubPathUrl should link files, folders and the repository root', () => {
+        const repoInfo: git.RepoInfo = {
+            provider: 'github',
+            remoteName: 'origin',
+            remoteUrl: 'https://github.com/username/repo',
+            branch: 'main',
+            branchSource: 'remote',
+            commit: 'abcdef1234567890',
+            rootPath: mockRootPath
+        };
+
+        assert.strictEqual(
+            git.buildGitHubPathUrl(repoInfo, path.join(mockRootPath, 'src', 'file.ts'), false),
+            'https://github.com/username/repo/blob/main/src/file.ts'
+        );
+        assert.strictEqual(
+            git.buildGitHubPathUrl(repoInfo, path.join(mockRootPath, 'src'), true),
+            'https://github.com/username/repo/tree/main/src'
+        );
+        assert.strictEqual(git.buildGitHubPathUrl(repoInfo, mockRootPath, true), 'https://github.com/username/repo');
+        assert.strictEqual(git.buildGitHubPathUrl(repoInfo, '/elsewhere/file.ts', false), null);
+    });
+
+    test('buildGitHubUrl should link lines of Markdown files in the plain view', () => {
+        const repoInfo: git.RepoInfo = {
+            provider: 'github',
+            remoteName: 'origin',
+            remoteUrl: 'https://github.com/username/repo',
+            branch: 'main',
+            branchSource: 'remote',
+            commit: 'abcdef1234567890',
+            rootPath: mockRootPath
+        };
+
+        assert.strictEqual(
+            git.buildGitHubUrl(repoInfo, path.join(mockRootPath, 'docs', 'README.md'), 10, 20),
+            'https://github.com/username/repo/blob/main/docs/README.md?plain=1#L10-L20'
+        );
+    });
+
+    test('buildGitHubHeadingUrl should link the heading anchor on GitHub only', () => {
+        const repoInfo: git.RepoInfo = {
+            provider: 'github',
+            remoteName: 'origin',
+            remoteUrl: 'https://github.com/username/repo',
+            branch: 'main',
+            branchSource: 'remote',
+            commit: 'abcdef1234567890',
+            rootPath: mockRootPath
+        };
+        const filePath = path.join(mockRootPath, 'README.md');
+
+        assert.strictEqual(git.buildGitHubHeadingUrl(repoInfo, filePath, 'getting-started'), 'https://github.com/username/repo/blob/main/README.md#getting-started');
+        assert.strictEqual(git.buildGitHubHeadingUrl(repoInfo, filePath, 'café'), 'https://github.com/username/repo/blob/main/README.md#caf%C3%A9');
+        assert.strictEqual(git.buildGitHubHeadingUrl({ ...repoInfo, provider: 'gitlab', remoteUrl: 'https://gitlab.com/group/repo' }, filePath, 'usage'), null);
+    });
+
+    suite('buildGitHubCompareUrl', () => {
+        const upstream: git.RepoInfo = {
+            provider: 'github',
+            remoteName: 'upstream',
+            remoteUrl: 'https://github.com/org/repo',
+            branch: 'feature/x',
+            branchSource: 'remote',
+            commit: 'abcdef1234567890',
+            rootPath: mockRootPath
+        };
+        const fork: git.RepoInfo = { ...upstream, remoteName: 'origin', remoteUrl: 'https://github.com/username/repo' };
+
+        test('buildGitHubCompareUrl should compare a branch with the base on the same repository', () => {
+            assert.strictEqual(git.buildGitHubCompareUrl(upstream, 'main'), 'https://github.com/org/repo/compare/main...feature/x');
+        });
+
+        test('buildGitHubCompareUrl should open the pull request form with expand=1', () => {
+            assert.strictEqual(
+                git.buildGitHubCompareUrl(upstream, 'main', upstream, true),
+                'https://github.com/org/repo/compare/main...feature/x?expand=1'
+            );
+        });
+
+        test('buildGitHubCompareUrl should name a branch on a fork owner:branch', () => {
+            assert.strictEqual(
+                git.buildGitHubCompareUrl(upstream, 'develop', fork, true),
+                'https://github.com/org/repo/compare/develop...username:feature/x?expand=1'
+            );
+        });
+
+        test('buildGitHubCompareUrl should not compare across hosts', () => {
+            const elsewhere: git.RepoInfo = { ...fork, remoteUrl: 'https://github.corp.example.com/username/repo' };
+            assert.strictEqual(git.buildGitHubCompareUrl(upstream, 'main', elsewhere), null);
+        });
+
+        test('buildGitHubCompareUrl should not compare forks where the provider has no owner:branch syntax', () => {
+            const gitlabUpstream: git.RepoInfo = { ...upstream, provider: 'gitlab', remoteUrl: 'https://gitlab.com/group/repo' };
+            const gitlabFork: git.RepoInfo = { ...gitlabUpstream, remoteUrl: 'https://gitlab.com/username/repo' };
+            assert.strictEqual(git.buildGitHubCompareUrl(gitlabUpstream, 'main', gitlabFork), null);
+            assert.strictEqual(
+                git.buildGitHubCompareUrl(gitlabUpstream, 'main', gitlabUpstream, true),
+                'https://gitlab.com/group/repo/-/merge_requests/new?merge_request[source_branch]=feature%2Fx&merge_request[target_branch]=main'
+            );
+        });
+    });
+
     // Test for getRepoInfo with different scenarios using stubs for console.error
     suite('getRepoInfo', () => {
         test('getRepoInfo should return repository information', async () => {
@@ -71,16 +243,17 @@ suite('Git Functionality Tests', () => {
             // Mock executeCommand directly since it's the underlying function that makes git calls
             const executeCommandStub = sandbox.stub();
             executeCommandStub.withArgs('git rev-parse --show-toplevel', path.dirname(mockFilePath)).resolves(mockRootPath);
-            executeCommandStub.withArgs('git config --get remote.origin.url', mockRootPath).resolves('https://github.com/username/repo.git');
+            executeCommandStub.withArgs('git config --get-regexp ^remote\\..*\\.url$', mockRootPath).resolves('remote.origin.url https://github.com/username/repo.git');
+            executeCommandStub.withArgs('git config --get-regexp ^branch\\..*\\.remote$', mockRootPath).resolves('branch.main.remote origin');
             executeCommandStub.withArgs('git rev-parse --abbrev-ref HEAD', mockRootPath).resolves('main');
             executeCommandStub.withArgs('git rev-parse HEAD', mockRootPath).resolves('abcdef1234567890');
             
             // Create a proxied git module with our executeCommandStub
             const proxiedGit = proxyquire('../git', {
                 'child_process': {
-                    exec: (cmd: string, options: any, callback: any) => {
-                        // Extract the git command being executed
-                        const command = cmd;
+                    execFile: (file: string, args: string[], options: any, callback: any) => {
+                        // Rebuild the git command being executed
+                        const command = [file, ...args].join(' ');
                         const cwd = options.cwd;
                         
                         // Determine which mock response to use based on the command
@@ -104,27 +277,27 @@ suite('Git Functionality Tests', () => {
         });
 
         test('getRepoInfo should handle errors appropriately', async () => {
-            const consoleErrorStub = sandbox.stub(console, 'error');
-            // Instead of stubbing getRepoInfo itself, let's stub a function it depends on to cause an error
+            // Git runs, but every command in the repository fails
             const executeCommandStub = sandbox.stub().rejects(new Error('Git command failed'));
-            
-            // Use proxyquire to inject our stub
-            const proxiedGit = proxyquire.noCallThru().load('../git', {
-                './git': {
-                    executeCommand: executeCommandStub
+            executeCommandStub.withArgs('git --version').resolves('git version 2.43.0');
+            const onFailure = sandbox.stub();
+
+            const proxiedGit = proxyquire('../git', {
+                'child_process': {
+                    execFile: (file: string, args: string[], options: any, callback: any) => {
+                        executeCommandStub([file, ...args].join(' '), options.cwd)
+                            .then((result: string) => callback(null, result, ''))
+                            .catch((error: Error) => callback(error, '', error.message));
+                        return {} as cp.ChildProcess;
+                    }
                 }
             });
-            
-            try {
-                const result = await git.getRepoInfo('/non-existent/path');
-                // We expect null when an error occurs
-                assert.strictEqual(result, null);
-                // Ensure the error was logged
-                assert.ok(consoleErrorStub.called);
-            } catch (error) {
-                // If the function throws instead of returning null, that's also acceptable behavior
-                assert.ok(error instanceof Error);
-            }
+
+            const result = await proxiedGit.getRepoInfo('/non-existent/path', { onFailure });
+            assert.strictEqual(result, null);
+            assert.ok(onFailure.calledOnce);
+            assert.ok(onFailure.firstCall.args[0] instanceof proxiedGit.RepoInfoError);
+            assert.strictEqual(onFailure.firstCall.args[0].reason, 'notRepository');
         });
     });
 
@@ -132,7 +305,8 @@ suite('Git Functionality Tests', () => {
     suite('Git command integration', () => {
         // Helper function to create a proxied git module with stubbed child_process
         function createProxiedGitModule(execStubResponses: Record<string, {stdout: string, stderr: string, error: Error | null}>) {
-            const execStub = (command: string, options: any, callback: any) => {
+            const execStub = (file: string, args: string[], options: any, callback: any) => {
+                const command = [file, ...args].join(' ');
                 const matchingCommand = Object.keys(execStubResponses).find(key => command.includes(key));
                 if (matchingCommand) {
                     const response = execStubResponses[matchingCommand as keyof typeof execStubResponses];
@@ -145,7 +319,7 @@ suite('Git Functionality Tests', () => {
 
             // Use the correct proxyquire call
             const proxiedGit = proxyquire.noCallThru().load('../git', {
-                'child_process': { exec: execStub }
+                'child_process': { execFile: execStub }
             });
 
             return proxiedGit;
@@ -154,7 +328,7 @@ suite('Git Functionality Tests', () => {
         test('Should handle SSH GitHub URLs correctly', async function() {
             const execStubResponses = {
                 'rev-parse --show-toplevel': { stdout: mockRootPath, stderr: '', error: null },
-                'config --get remote.origin.url': { stdout: 'git@github.com:username/repo.git', stderr: '', error: null },
+                'remote\\..*\\.url': { stdout: 'remote.origin.url git@github.com:username/repo.git', stderr: '', error: null },
                 'rev-parse --abbrev-ref HEAD': { stdout: 'main', stderr: '', error: null },
                 'rev-parse HEAD': { stdout: 'abcdef1234567890', stderr: '', error: null }
             };
@@ -170,7 +344,7 @@ suite('Git Functionality Tests', () => {
         test('Should handle HTTPS GitHub URLs correctly', async function() {
             const execStubResponses = {
                 'rev-parse --show-toplevel': { stdout: mockRootPath, stderr: '', error: null },
-                'config --get remote.origin.url': { stdout: 'https://github.com/username/repo.git', stderr: '', error: null },
+                'remote\\..*\\.url': { stdout: 'remote.origin.url https://github.com/username/repo.git', stderr: '', error: null },
                 'rev-parse --abbrev-ref HEAD': { stdout: 'feature', stderr: '', error: null },
                 'rev-parse HEAD': { stdout: 'abcdef1234567890', stderr: '', error: null }
             };
@@ -180,13 +354,14 @@ suite('Git Functionality Tests', () => {
             assert.notStrictEqual(result, null);
             assert.strictEqual(result?.remoteUrl, 'https://github.com/username/repo');
             assert.strictEqual(result?.branch, 'feature');
+            assert.strictEqual(result?.commit, 'abcdef1234567890');
             assert.strictEqual(result?.rootPath, mockRootPath);
         });
 
         test('Should handle detached HEAD state', async function() {
             const execStubResponses = {
                 'rev-parse --show-toplevel': { stdout: mockRootPath, stderr: '', error: null },
-                'config --get remote.origin.url': { stdout: 'https://github.com/username/repo.git', stderr: '', error: null },
+                'remote\\..*\\.url': { stdout: 'remote.origin.url https://github.com/username/repo.git', stderr: '', error: null },
                 'rev-parse --abbrev-ref HEAD': { stdout: 'HEAD', stderr: '', error: null },
                 'rev-parse HEAD': { stdout: 'abcdef1234567890', stderr: '', error: null }
             };
@@ -199,37 +374,562 @@ suite('Git Functionality Tests', () => {
             assert.strictEqual(result?.rootPath, mockRootPath);
         });
 
-        test('Should handle non-GitHub remotes', async function() {
-            // Create a custom console with a spy for error
-            const errorSpy = sandbox.spy();
-            const customConsole = { error: errorSpy, log: console.log, warn: console.warn, info: console.info };
-            
+        test('Should resolve the branch and pinned commit once per cached state', async function() {
+            const commands: string[] = [];
+            const proxiedGit = proxyquire.noCallThru().load('../git', {
+                'child_process': {
+                    execFile: (file: string, args: string[], options: any, callback: any) => {
+                        commands.push(args.join(' '));
+                        callback(null, args[0] === 'rev-parse' && args.includes('--verify') ? 'abcdef1234567890' : 'fedcba0987654321', '');
+                        return {} as any;
+                    }
+                }
+            });
+
+            const state: git.RepoState = {
+                rootPath: mockRootPath,
+                commit: 'abcdef1234567890',
+                branch: 'feature',
+                upstreamRemote: 'origin',
+                upstreamBranch: 'feature',
+                remotes: [{ name: 'origin', url: 'https://github.com/username/repo.git' }],
+                insteadOf: [],
+                derived: { branches: new Map(), superprojectPath: Promise.resolve('/mock') }
+            };
+            const options: git.RepoInfoOptions = { getRepoState: async () => state, sshConfig: '', pinSubmodules: true };
+
+            const first = await proxiedGit.getRepoInfo(mockFilePath, options);
+            const count = commands.length;
+            const second = await proxiedGit.getRepoInfo(mockFilePath, options);
+            assert.deepStrictEqual(second, first);
+            assert.strictEqual(first?.branch, 'fedcba0987654321');
+            assert.strictEqual(commands.length, count);
+            assert.strictEqual(commands.filter(command => command.startsWith('rev-parse --verify')).length, 1);
+        });
+
+        suite('resolveBranch', () => {
+            const missing = { stdout: '', stderr: 'fatal: not a valid ref', error: new Error('not a valid ref') };
+
+            test('Should use the branch when it exists on the remote', async function() {
+                const proxiedGit = createProxiedGitModule({
+                    'rev-parse --verify --quiet refs/remotes/origin/feature': { stdout: 'abcdef1234567890', stderr: '', error: null }
+                });
+                const result = await proxiedGit.resolveBranch(mockRootPath, 'origin', 'feature', 'abcdef1234567890');
+                assert.deepStrictEqual(result, { branch: 'feature', source: 'remote' });
+            });
+
+            test('Should use the upstream branch when it has another name', async function() {
+                const proxiedGit = createProxiedGitModule({
+                    'rev-parse --verify --quiet refs/remotes/origin/feature': missing,
+                    'rev-parse --verify --quiet refs/remotes/origin/bugfix/123': { stdout: 'abcdef1234567890', stderr: '', error: null },
+                    'branch\\..*\\.remote': { stdout: 'branch.feature.remote origin', stderr: '', error: null },
+                    'branch\\..*\\.merge': { stdout: 'branch.main.merge refs/heads/main\nbranch.feature.merge refs/heads/bugfix/123', stderr: '', error: null }
+                });
+                const result = await proxiedGit.resolveBranch(mockRootPath, 'origin', 'feature', 'abcdef1234567890');
+                assert.deepStrictEqual(result, { branch: 'bugfix/123', source: 'upstream' });
+            });
+
+            test('Should ignore an upstream on another remote', async function() {
+                const proxiedGit = createProxiedGitModule({
+                    'rev-parse --verify --quiet': missing,
+                    'branch\\..*\\.remote': { stdout: 'branch.feature.remote upstream', stderr: '', error: null },
+                    'branch\\..*\\.merge': { stdout: 'branch.feature.merge refs/heads/feature', stderr: '', error: null },
+                    'symbolic-ref --quiet refs/remotes/origin/HEAD': { stdout: 'refs/remotes/origin/main', stderr: '', error: null }
+                });
+                const result = await proxiedGit.resolveBranch(mockRootPath, 'origin', 'feature', 'abcdef1234567890');
+                assert.deepStrictEqual(result, { branch: 'main', source: 'default' });
+            });
+
+            test('Should fall back to the remote default branch for unpushed branches', async function() {
+                const proxiedGit = createProxiedGitModule({
+                    'rev-parse --verify --quiet': missing,
+                    'symbolic-ref --quiet refs/remotes/origin/HEAD': { stdout: 'refs/remotes/origin/develop', stderr: '', error: null }
+                });
+                const result = await proxiedGit.resolveBranch(mockRootPath, 'origin', 'feature', 'abcdef1234567890');
+                assert.deepStrictEqual(result, { branch: 'develop', source: 'default' });
+            });
+
+            test('Should keep the local branch when nothing better is known', async function() {
+                const proxiedGit = createProxiedGitModule({});
+                const result = await proxiedGit.resolveBranch(mockRootPath, 'origin', 'feature', 'abcdef1234567890');
+                assert.deepStrictEqual(result, { branch: 'feature', source: 'local' });
+            });
+
+            test('Should use the commit for a detached HEAD', async function() {
+                const proxiedGit = createProxiedGitModule({});
+                const result = await proxiedGit.resolveBranch(mockRootPath, 'origin', 'abcdef1234567890', 'abcdef1234567890');
+                assert.deepStrictEqual(result, { branch: 'abcdef1234567890', source: 'detached' });
+            });
+
+            test('Should prefer the remote default branch in a repository without commits', async function() {
+                const proxiedGit = createProxiedGitModule({
+                    'symbolic-ref --quiet refs/remotes/origin/HEAD': { stdout: 'refs/remotes/origin/trunk', stderr: '', error: null }
+                });
+                const result = await proxiedGit.resolveBranch(mockRootPath, 'origin', 'master', null);
+                assert.deepStrictEqual(result, { branch: 'trunk', source: 'unborn' });
+            });
+
+            test('Should use the unborn branch name, then main, in a repository without commits', async function() {
+                const proxiedGit = createProxiedGitModule({});
+                assert.deepStrictEqual(await proxiedGit.resolveBranch(mockRootPath, 'origin', 'master', null), { branch: 'master', source: 'unborn' });
+                assert.deepStrictEqual(await proxiedGit.resolveBranch(mockRootPath, 'origin', null, null), { branch: 'main', source: 'unborn' });
+            });
+        });
+
+        // A fork checkout where origin is the personal fork and upstream the canonical repository
+        const forkRemotes = [
+            'remote.origin.url git@github.com:me/repo.git',
+            'remote.upstream.url https://github.com/org/repo.git',
+            'remote.mirror.url https://gitlab.com/org/repo.git'
+        ].join('\n');
+
+        test('Should list every remote on a supported host', async function() {
+            const execStubResponses = {
+                'remote\\..*\\.url': { stdout: forkRemotes, stderr: '', error: null }
+            };
+
+            const proxiedGit = createProxiedGitModule(execStubResponses);
+            const remotes = await proxiedGit.getHostedRemotes(mockRootPath);
+            assert.deepStrictEqual(remotes, [
+                { name: 'origin', provider: 'github', url: 'https://github.com/me/repo' },
+                { name: 'upstream', provider: 'github', url: 'https://github.com/org/repo' },
+                { name: 'mirror', provider: 'gitlab', url: 'https://gitlab.com/org/repo' }
+            ]);
+        });
+
+        test('Should use the first preferred remote that exists', async function() {
             const execStubResponses = {
                 'rev-parse --show-toplevel': { stdout: mockRootPath, stderr: '', error: null },
-                'config --get remote.origin.url': { stdout: 'https://gitlab.com/username/repo.git', stderr: '', error: null },
+                'remote\\..*\\.url': { stdout: forkRemotes, stderr: '', error: null },
                 'rev-parse --abbrev-ref HEAD': { stdout: 'main', stderr: '', error: null },
                 'rev-parse HEAD': { stdout: 'abcdef1234567890', stderr: '', error: null }
             };
 
-            // Use our custom console in the proxied module
-            const proxiedGit = proxyquire.noCallThru().load('../git', {
-                'child_process': { exec: (command: string, options: any, callback: any) => {
-                    const matchingCommand = Object.keys(execStubResponses).find(key => command.includes(key));
-                    if (matchingCommand) {
-                        const response = execStubResponses[matchingCommand as keyof typeof execStubResponses];
-                        callback(response.error, response.stdout, response.stderr);
-                    } else {
-                        callback(new Error(`No stub response for command: ${command}`), '', 'Command not stubbed');
-                    }
-                    return {} as any;
-                }},
-                console: customConsole
+            const proxiedGit = createProxiedGitModule(execStubResponses);
+            const result = await proxiedGit.getRepoInfo(mockFilePath, { preferredRemotes: ['canonical', 'upstream', 'origin'] });
+            assert.strictEqual(result?.remoteName, 'upstream');
+            assert.strictEqual(result?.remoteUrl, 'https://github.com/org/repo');
+        });
+
+        test('Should use the remote chosen for the repository before the preferred and tracked ones', async function() {
+            const execStubResponses = {
+                'rev-parse --show-toplevel': { stdout: mockRootPath, stderr: '', error: null },
+                'remote\\..*\\.url': { stdout: forkRemotes, stderr: '', error: null },
+                'branch\\..*\\.remote': { stdout: 'branch.main.remote upstream', stderr: '', error: null },
+                'rev-parse --abbrev-ref HEAD': { stdout: 'main', stderr: '', error: null },
+                'rev-parse HEAD': { stdout: 'abcdef1234567890', stderr: '', error: null }
+            };
+
+            const proxiedGit = createProxiedGitModule(execStubResponses);
+            const getChosenRemote = sandbox.stub().withArgs(mockRootPath).returns('mirror');
+            const result = await proxiedGit.getRepoInfo(mockFilePath, { preferredRemotes: ['upstream'], getChosenRemote });
+            assert.strictEqual(result?.remoteName, 'mirror');
+
+            // A chosen remote that was since removed is ignored
+            getChosenRemote.withArgs(mockRootPath).returns('gone');
+            assert.strictEqual((await proxiedGit.getRepoInfo(mockFilePath, { preferredRemotes: ['upstream'], getChosenRemote }))?.remoteName, 'upstream');
+        });
+
+        test('Should use the remote named in the options over the chosen one', async function() {
+            const onFailure = sandbox.stub();
+            const execStubResponses = {
+                'rev-parse --show-toplevel': { stdout: mockRootPath, stderr: '', error: null },
+                'remote\\..*\\.url': { stdout: forkRemotes, stderr: '', error: null },
+                'branch\\..*\\.remote': { stdout: 'branch.main.remote upstream', stderr: '', error: null },
+                'rev-parse --abbrev-ref HEAD': { stdout: 'main', stderr: '', error: null },
+                'rev-parse HEAD': { stdout: 'abcdef1234567890', stderr: '', error: null }
+            };
+
+            const proxiedGit = createProxiedGitModule(execStubResponses);
+            const getChosenRemote = sandbox.stub().returns('mirror');
+            const result = await proxiedGit.getRepoInfo(mockFilePath, { remoteName: 'origin', getChosenRemote });
+            assert.strictEqual(result?.remoteName, 'origin');
+
+            // A missing remote fails instead of falling back to another one
+            assert.strictEqual(await proxiedGit.getRepoInfo(mockFilePath, { remoteName: 'gone', getChosenRemote, onFailure }), null);
+            assert.strictEqual(onFailure.firstCall.args[0].reason, 'noRemote');
+        });
+
+        test('Should use the remote tracked by the current branch', async function() {
+            const pickRemote = sandbox.stub().resolves(undefined);
+            const execStubResponses = {
+                'rev-parse --show-toplevel': { stdout: mockRootPath, stderr: '', error: null },
+                'remote\\..*\\.url': { stdout: forkRemotes, stderr: '', error: null },
+                'branch\\..*\\.remote': { stdout: 'branch.main.remote origin\nbranch.feature.remote upstream', stderr: '', error: null },
+                'rev-parse --abbrev-ref HEAD': { stdout: 'feature', stderr: '', error: null },
+                'rev-parse HEAD': { stdout: 'abcdef1234567890', stderr: '', error: null }
+            };
+
+            const proxiedGit = createProxiedGitModule(execStubResponses);
+            const result = await proxiedGit.getRepoInfo(mockFilePath, { pickRemote });
+            assert.strictEqual(result?.remoteName, 'upstream');
+            assert.strictEqual(pickRemote.called, false);
+        });
+
+        test('Should ask which remote to use when several qualify', async function() {
+            const pickRemote = sandbox.stub().callsFake(async (remotes: git.GitRemote[]) => remotes[1]);
+            const execStubResponses = {
+                'rev-parse --show-toplevel': { stdout: mockRootPath, stderr: '', error: null },
+                'remote\\..*\\.url': { stdout: forkRemotes, stderr: '', error: null },
+                'rev-parse --abbrev-ref HEAD': { stdout: 'main', stderr: '', error: null },
+                'rev-parse HEAD': { stdout: 'abcdef1234567890', stderr: '', error: null }
+            };
+
+            const proxiedGit = createProxiedGitModule(execStubResponses);
+            const result = await proxiedGit.getRepoInfo(mockFilePath, { pickRemote });
+            assert.strictEqual(pickRemote.calledOnce, true);
+            assert.strictEqual(pickRemote.firstCall.args[1], mockRootPath);
+            assert.strictEqual(result?.remoteName, 'upstream');
+        });
+
+        test('Should return null when no remote is picked', async function() {
+            sandbox.stub(console, 'error');
+            const execStubResponses = {
+                'rev-parse --show-toplevel': { stdout: mockRootPath, stderr: '', error: null },
+                'remote\\..*\\.url': { stdout: forkRemotes, stderr: '', error: null },
+                'rev-parse --abbrev-ref HEAD': { stdout: 'main', stderr: '', error: null },
+                'rev-parse HEAD': { stdout: 'abcdef1234567890', stderr: '', error: null }
+            };
+
+            const proxiedGit = createProxiedGitModule(execStubResponses);
+            const result = await proxiedGit.getRepoInfo(mockFilePath, { pickRemote: async () => undefined });
+            assert.strictEqual(result, null);
+        });
+
+        suite('Failure reasons', () => {
+            const failed = { stdout: '', stderr: 'fatal: failed', error: new Error('failed') };
+            const repository = {
+                'rev-parse --show-toplevel': { stdout: mockRootPath, stderr: '', error: null },
+                'rev-parse --abbrev-ref HEAD': { stdout: 'main', stderr: '', error: null },
+                'rev-parse HEAD': { stdout: 'abcdef1234567890', stderr: '', error: null }
+            };
+
+            async function getFailure(execStubResponses: Record<string, { stdout: string, stderr: string, error: Error | null }>, options: git.RepoInfoOptions = {}) {
+                const proxiedGit = createProxiedGitModule(execStubResponses);
+                let failure: git.RepoInfoError | undefined;
+                const result = await proxiedGit.getRepoInfo(mockFilePath, { ...options, onFailure: (error: git.RepoInfoError) => { failure = error; } });
+                assert.strictEqual(result, null);
+                return failure;
+            }
+
+            setup(() => {
+                sandbox.stub(console, 'error');
             });
-            
+
+            test('Should report that git is not installed', async function() {
+                const failure = await getFailure({});
+                assert.strictEqual(failure?.reason, 'gitNotFound');
+            });
+
+            test('Should report files outside a repository', async function() {
+                const failure = await getFailure({
+                    'git --version': { stdout: 'git version 2.43.0', stderr: '', error: null },
+                    'rev-parse --show-toplevel': { stdout: '', stderr: 'fatal: not a git repository', error: new Error('not a git repository') }
+                });
+                assert.strictEqual(failure?.reason, 'notRepository');
+                assert.strictEqual(failure?.message, 'file.ts is not in a git repository');
+                assert.strictEqual(failure?.rootPath, undefined);
+            });
+
+            test('Should report repositories without remotes', async function() {
+                const failure = await getFailure({ ...repository, 'remote\\..*\\.url': failed });
+                assert.strictEqual(failure?.reason, 'noRemote');
+            });
+
+            test('Should report remotes on unsupported hosts', async function() {
+                const failure = await getFailure({
+                    ...repository,
+                    'remote\\..*\\.url': { stdout: 'remote.origin.url git@example.com:team/repo.git', stderr: '', error: null }
+                });
+                assert.strictEqual(failure?.reason, 'unsupportedRemote');
+                assert.ok(failure?.message.includes('origin (git@example.com:team/repo.git)'));
+            });
+
+            test('Should report when no remote is picked', async function() {
+                const failure = await getFailure({ ...repository, 'remote\\..*\\.url': { stdout: forkRemotes, stderr: '', error: null } }, {
+                    pickRemote: async () => undefined
+                });
+                assert.strictEqual(failure?.reason, 'noRemoteSelected');
+                // So Choose Remote opens for this repository rather than the active editor's
+                assert.strictEqual(failure?.rootPath, mockRootPath);
+            });
+
+            test('Should report a HEAD that is neither a branch nor a commit', async function() {
+                const failure = await getFailure({
+                    ...repository,
+                    'rev-parse --abbrev-ref HEAD': failed,
+                    'remote\\..*\\.url': { stdout: 'remote.origin.url git@github.com:username/repo.git', stderr: '', error: null }
+                });
+                assert.strictEqual(failure?.reason, 'noHead');
+            });
+        });
+
+        test('Should report a commit as pushed when a remote branch contains it', async function() {
+            const execStubResponses = {
+                'branch -r --contains abcdef1234567890': { stdout: '  origin/main\n  origin/feature', stderr: '', error: null }
+            };
+
+            const proxiedGit = createProxiedGitModule(execStubResponses);
+            assert.strictEqual(await proxiedGit.isCommitPushed(mockRootPath, 'abcdef1234567890'), true);
+        });
+
+        test('Should report a commit as unpushed when no remote branch contains it', async function() {
+            const execStubResponses = {
+                'branch -r --contains abcdef1234567890': { stdout: '', stderr: '', error: null }
+            };
+
+            const proxiedGit = createProxiedGitModule(execStubResponses);
+            assert.strictEqual(await proxiedGit.isCommitPushed(mockRootPath, 'abcdef1234567890'), false);
+        });
+
+        test('Should find the most recent commit that touched the selected lines', async function() {
+            const older = '1111111111111111111111111111111111111111';
+            const newer = '2222222222222222222222222222222222222222';
+            const execStubResponses = {
+                'blame --porcelain -L 1,3 -- src/new.ts': {
+                    stdout: [
+                        `${older} 1 1 1`, 'committer-time 1000', 'filename src/old.ts', '\ta',
+                        `${newer} 7 2 1`, 'committer-time 2000', 'filename src/new.ts', '\tb',
+                        '0000000000000000000000000000000000000000 3 3 1', 'committer-time 3000', 'filename src/new.ts', '\tc'
+                    ].join('\n'),
+                    stderr: '',
+                    error: null
+                }
+            };
+
+            const proxiedGit = createProxiedGitModule(execStubResponses);
+            const blamed = await proxiedGit.getLastCommitForLines(mockRootPath, 'src/new.ts', 1, 3);
+            assert.deepStrictEqual(blamed, { commit: newer, filePath: 'src/new.ts', line: 7 });
+        });
+
+        test('Should blame a revision when one is given', async function() {
+            const commit = '3333333333333333333333333333333333333333';
+            const execStubResponses = {
+                'blame --porcelain -L 2,2 abc1234 -- file.ts': {
+                    stdout: `${commit} 2 2 1\ncommitter-time 1000\nfilename file.ts\n\tline`,
+                    stderr: '',
+                    error: null
+                }
+            };
+
+            const proxiedGit = createProxiedGitModule(execStubResponses);
+            const blamed = await proxiedGit.getLastCommitForLines(mockRootPath, 'file.ts', 2, 2, 'abc1234');
+            assert.deepStrictEqual(blamed, { commit, filePath: 'file.ts', line: 2 });
+        });
+
+        test('Should report uncommitted lines as having no last commit', async function() {
+            const execStubResponses = {
+                'blame --porcelain -L 5,5 -- file.ts': {
+                    stdout: '0000000000000000000000000000000000000000 5 5 1\ncommitter-time 3000\nfilename file.ts\n\tnew line',
+                    stderr: '',
+                    error: null
+                }
+            };
+
+            const proxiedGit = createProxiedGitModule(execStubResponses);
+            assert.strictEqual(await proxiedGit.getLastCommitForLines(mockRootPath, 'file.ts', 5, 5), null);
+        });
+
+        test('Should split a linked ref containing slashes from the file path', async function() {
+            const execStubResponses = {
+                'rev-parse --verify --quiet refs/remotes/origin/feature/x^{commit}': { stdout: '1234567890abcdef', stderr: '', error: null }
+            };
+
+            const proxiedGit = createProxiedGitModule(execStubResponses);
+            const resolved = await proxiedGit.resolveRefAndPath(mockRootPath, 'origin', ['feature', 'x', 'src', 'file.ts']);
+            assert.deepStrictEqual(resolved, { ref: 'feature/x', path: 'src/file.ts', commit: '1234567890abcdef' });
+        });
+
+        test('Should return null when no prefix of the link is a ref', async function() {
+            const proxiedGit = createProxiedGitModule({});
+            assert.strictEqual(await proxiedGit.resolveRefAndPath(mockRootPath, 'origin', ['gone', 'file.ts']), null);
+        });
+
+        test('Should list branches, remote-tracking branches and tags', async function() {
+            const sha = 'abcdef1234567890abcdef1234567890abcdef12';
+            const tagObject = '1111111111111111111111111111111111111111';
+            const execStubResponses = {
+                'for-each-ref --sort=-creatordate': {
+                    stdout: [
+                        `refs/heads/main\x00${sha}\x00\x00Fix the build\x002 hours ago`,
+                        `refs/remotes/origin/HEAD\x00${sha}\x00\x00Fix the build\x002 hours ago`,
+                        `refs/remotes/origin/release/2.3\x00${sha}\x00\x00Release 2.3\x003 weeks ago`,
+                        `refs/tags/v1.4.0\x00${tagObject}\x00${sha}\x00Version 1.4.0\x002 months ago`
+                    ].join('\n'),
+                    stderr: '',
+                    error: null
+                }
+            };
+
+            const proxiedGit = createProxiedGitModule(execStubResponses);
+            const refs: git.GitRef[] = await proxiedGit.listRefs(mockRootPath);
+            assert.deepStrictEqual(refs.map(ref => [ref.kind, ref.name, ref.ref]), [
+                ['branch', 'main', 'refs/heads/main'],
+                ['remote', 'origin/release/2.3', 'refs/remotes/origin/release/2.3'],
+                ['tag', 'v1.4.0', 'refs/tags/v1.4.0']
+            ]);
+            // Annotated tags resolve to the commit they tag
+            assert.strictEqual(refs[2].commit, sha);
+            assert.strictEqual(refs[1].subject, 'Release 2.3');
+            assert.strictEqual(refs[1].date, '3 weeks ago');
+        });
+
+        test('Should list recent commits', async function() {
+            const execStubResponses = {
+                'log -n50': { stdout: 'abcdef1234567890\x00Fix the build\x002 hours ago\n1234567890abcdef\x00Initial commit\x003 days ago', stderr: '', error: null }
+            };
+
+            const proxiedGit = createProxiedGitModule(execStubResponses);
+            const commits: git.GitRef[] = await proxiedGit.getRecentCommits(mockRootPath);
+            assert.deepStrictEqual(commits.map(commit => [commit.kind, commit.ref, commit.subject]), [
+                ['commit', 'abcdef1234567890', 'Fix the build'],
+                ['commit', '1234567890abcdef', 'Initial commit']
+            ]);
+        });
+
+        test('Should keep the path of a file that exists at the ref', async function() {
+            const execStubResponses = {
+                'cat-file -e v1.4.0:src/new.ts': { stdout: '', stderr: '', error: null }
+            };
+
+            const proxiedGit = createProxiedGitModule(execStubResponses);
+            assert.strictEqual(await proxiedGit.getPathAtRef(mockRootPath, 'src/new.ts', 'v1.4.0'), 'src/new.ts');
+        });
+
+        test('Should follow renames to the path a file had at the ref', async function() {
+            const execStubResponses = {
+                'log --follow --name-only --format=%H HEAD -- src/new.ts': {
+                    stdout: [
+                        'abcdef1234567890abcdef1234567890abcdef12', '', 'src/new.ts',
+                        '1234567890abcdef1234567890abcdef12345678', '', 'src/middle.ts',
+                        'fedcba0987654321fedcba0987654321fedcba09', '', 'lib/old.ts'
+                    ].join('\n'),
+                    stderr: '',
+                    error: null
+                },
+                'cat-file -e v1.0.0:lib/old.ts': { stdout: '', stderr: '', error: null }
+            };
+
+            const proxiedGit = createProxiedGitModule(execStubResponses);
+            assert.strictEqual(await proxiedGit.getPathAtRef(mockRootPath, 'src/new.ts', 'v1.0.0'), 'lib/old.ts');
+        });
+
+        test('Should return null when the file did not exist at the ref', async function() {
+            const execStubResponses = {
+                'log --follow --name-only --format=%H HEAD -- src/new.ts': {
+                    stdout: 'abcdef1234567890abcdef1234567890abcdef12\n\nsrc/new.ts',
+                    stderr: '',
+                    error: null
+                }
+            };
+
+            const proxiedGit = createProxiedGitModule(execStubResponses);
+            assert.strictEqual(await proxiedGit.getPathAtRef(mockRootPath, 'src/new.ts', 'v0.1.0'), null);
+        });
+
+        test('Should find the newest pushed ancestor of an unpushed commit', async function() {
+            const execStubResponses = {
+                'rev-list --boundary --topo-order abcdef1234567890 --not --remotes': {
+                    stdout: 'abcdef1234567890\n1234567890abcdef\n-fedcba0987654321',
+                    stderr: '',
+                    error: null
+                }
+            };
+
+            const proxiedGit = createProxiedGitModule(execStubResponses);
+            const ancestor = await proxiedGit.getNewestPushedAncestor(mockRootPath, 'abcdef1234567890');
+            assert.strictEqual(ancestor, 'fedcba0987654321');
+        });
+
+        test('Should return null when no ancestor has been pushed', async function() {
+            const execStubResponses = {
+                'rev-list --boundary --topo-order abcdef1234567890 --not --remotes': { stdout: 'abcdef1234567890', stderr: '', error: null }
+            };
+
+            const proxiedGit = createProxiedGitModule(execStubResponses);
+            const ancestor = await proxiedGit.getNewestPushedAncestor(mockRootPath, 'abcdef1234567890');
+            assert.strictEqual(ancestor, null);
+        });
+
+        test('Should handle GitLab remotes', async function() {
+            const execStubResponses = {
+                'rev-parse --show-toplevel': { stdout: mockRootPath, stderr: '', error: null },
+                'remote\\..*\\.url': { stdout: 'remote.origin.url git@gitlab.com:group/subgroup/repo.git', stderr: '', error: null },
+                'rev-parse --abbrev-ref HEAD': { stdout: 'main', stderr: '', error: null },
+                'rev-parse HEAD': { stdout: 'abcdef1234567890', stderr: '', error: null }
+            };
+
+            const proxiedGit = createProxiedGitModule(execStubResponses);
             const result = await proxiedGit.getRepoInfo(mockFilePath);
-            
-            // Verify the result is null (non-GitHub remote was rejected)
+            assert.strictEqual(result?.provider, 'gitlab');
+            assert.strictEqual(result?.remoteUrl, 'https://gitlab.com/group/subgroup/repo');
+            assert.strictEqual(
+                proxiedGit.buildGitHubUrl(result, path.join(mockRootPath, 'src', 'file.ts'), 10, 20),
+                'https://gitlab.com/group/subgroup/repo/-/blob/main/src/file.ts#L10-20'
+            );
+        });
+
+        test('Should use the provider configured for a self-hosted host', async function() {
+            const execStubResponses = {
+                'rev-parse --show-toplevel': { stdout: mockRootPath, stderr: '', error: null },
+                'remote\\..*\\.url': { stdout: 'remote.origin.url git@git.corp.example.com:team/repo.git', stderr: '', error: null },
+                'rev-parse --abbrev-ref HEAD': { stdout: 'main', stderr: '', error: null },
+                'rev-parse HEAD': { stdout: 'abcdef1234567890', stderr: '', error: null }
+            };
+
+            const proxiedGit = createProxiedGitModule(execStubResponses);
+            const result = await proxiedGit.getRepoInfo(mockFilePath, { providerHosts: { 'git.corp.example.com': 'bitbucket' } });
+            assert.strictEqual(result?.provider, 'bitbucket');
+            assert.strictEqual(result?.remoteUrl, 'https://git.corp.example.com/team/repo');
+        });
+
+        test('Should apply insteadOf rewrites and SSH host aliases', async function() {
+            const execStubResponses = {
+                'rev-parse --show-toplevel': { stdout: mockRootPath, stderr: '', error: null },
+                'remote\\..*\\.url': { stdout: 'remote.origin.url gh:username/repo.git\nremote.work.url github-work:org/repo.git', stderr: '', error: null },
+                'url\\..*\\.insteadof': { stdout: 'url.git@github.com:.insteadof gh:', stderr: '', error: null }
+            };
+
+            const proxiedGit = createProxiedGitModule(execStubResponses);
+            const remotes = await proxiedGit.getHostedRemotes(mockRootPath, { sshConfig: 'Host github-work\n  HostName github.com\n  IdentityFile ~/.ssh/work' });
+            assert.deepStrictEqual(remotes, [
+                { name: 'origin', provider: 'github', url: 'https://github.com/username/repo' },
+                { name: 'work', provider: 'github', url: 'https://github.com/org/repo' }
+            ]);
+        });
+
+        test('Should link enterprise hosts to their configured web URL', async function() {
+            const execStubResponses = {
+                'rev-parse --show-toplevel': { stdout: mockRootPath, stderr: '', error: null },
+                'remote\\..*\\.url': { stdout: 'remote.origin.url ssh://git@git.corp.example.com:7999/team/repo.git', stderr: '', error: null }
+            };
+
+            const proxiedGit = createProxiedGitModule(execStubResponses);
+            const remotes = await proxiedGit.getHostedRemotes(mockRootPath, {
+                enterpriseHosts: { 'git.corp.example.com': 'https://github.corp.example.com/' },
+                sshConfig: ''
+            });
+            assert.deepStrictEqual(remotes, [
+                { name: 'origin', provider: 'github', url: 'https://github.corp.example.com/team/repo' }
+            ]);
+        });
+
+        test('Should handle unsupported remotes', async function() {
+            const execStubResponses = {
+                'rev-parse --show-toplevel': { stdout: mockRootPath, stderr: '', error: null },
+                'remote\\..*\\.url': { stdout: 'remote.origin.url https://example.com/username/repo.git', stderr: '', error: null },
+                'rev-parse --abbrev-ref HEAD': { stdout: 'main', stderr: '', error: null },
+                'rev-parse HEAD': { stdout: 'abcdef1234567890', stderr: '', error: null }
+            };
+
+            const proxiedGit = createProxiedGitModule(execStubResponses);
+            const onFailure = sandbox.spy();
+            const result = await proxiedGit.getRepoInfo(mockFilePath, { onFailure, sshConfig: '' });
+
+            // The remote on an unknown host was rejected
             assert.strictEqual(result, null);
+            assert.strictEqual(onFailure.calledOnce, true);
+            assert.strictEqual(onFailure.firstCall.args[0].reason, 'unsupportedRemote');
         });
     });
 });
\ No newline at end of file
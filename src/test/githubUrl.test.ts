@@ -0,0 +1,60 @@
+import * as assert from 'assert';
+
+import * as githubUrl from '../githubUrl';
+
+suite('GitHub URL Tests', () => {
+    test('parseGitHubFileUrl should parse a blob link with a line range', () => {
+        assert.deepStrictEqual(githubUrl.parseGitHubFileUrl('https://github.com/username/repo/blob/main/src/file.ts#L10-L20'), {
+            webUrl: 'https://github.com/username/repo',
+            view: 'blob',
+            segments: ['main', 'src', 'file.ts'],
+            startLine: 10,
+            endLine: 20
+        });
+    });
+
+    test('parseGitHubFileUrl should parse blame links, single lines and column anchors', () => {
+        const blame = githubUrl.parseGitHubFileUrl('https://github.com/username/repo/blame/main/file.ts#L7');
+        assert.strictEqual(blame?.view, 'blame');
+        assert.strictEqual(blame?.startLine, 7);
+        assert.strictEqual(blame?.endLine, 7);
+
+        const columns = githubUrl.parseGitHubFileUrl('https://github.com/username/repo/blob/main/file.ts#L20C3-L10C8');
+        assert.strictEqual(columns?.startLine, 10);
+        assert.strictEqual(columns?.endLine, 20);
+    });
+
+    test('parseGitHubFileUrl should decode paths and ignore the query', () => {
+        const link = githubUrl.parseGitHubFileUrl('https://github.corp.example.com/org/repo/blob/feature/x/docs/my%20file.md?plain=1');
+        assert.strictEqual(link?.webUrl, 'https://github.corp.example.com/org/repo');
+        assert.deepStrictEqual(link?.segments, ['feature', 'x', 'docs', 'my file.md']);
+        assert.strictEqual(link?.startLine, undefined);
+    });
+
+    test('parseGitHubFileUrl should reject links that are not files', () => {
+        assert.strictEqual(githubUrl.parseGitHubFileUrl('https://github.com/username/repo'), null);
+        assert.strictEqual(githubUrl.parseGitHubFileUrl('https://github.com/username/repo/tree/main/src'), null);
+        assert.strictEqual(githubUrl.parseGitHubFileUrl('https://github.com/username/repo/blob/main'), null);
+        assert.strictEqual(githubUrl.parseGitHubFileUrl('not a url'), null);
+    });
+
+    test('parseGitHubFileUrl should reject paths that could escape the repository or a git argument', () => {
+        assert.strictEqual(githubUrl.parseGitHubFileUrl('https://github.com/username/repo/blob/main/../../etc/passwd'), null);
+        assert.strictEqual(githubUrl.parseGitHubFileUrl('https://github.com/username/repo/blob/main/%2E%2E/secret'), null);
+        assert.strictEqual(githubUrl.parseGitHubFileUrl('https://github.com/username/repo/blob/main/a%0Ab.ts'), null);
+        assert.strictEqual(githubUrl.parseGitHubFileUrl('https://github.com/username/repo/blob/main/a%5C..%5C..%5Csecret'), null);
+    });
+
+    test('parseGitHubFileUrl should accept file names with characters shells treat specially', () => {
+        const link = githubUrl.parseGitHubFileUrl('https://github.com/o/r/blob/main/app/routes/$postId.tsx');
+        assert.deepStrictEqual(link?.segments, ['main', 'app', 'routes', '$postId.tsx']);
+        assert.deepStrictEqual(githubUrl.parseGitHubFileUrl('https://github.com/o/r/blob/main/%60a%22b%5C.ts')?.segments, ['main', '`a"b\\.ts']);
+    });
+
+    test('getRefCandidates should list every split, shortest ref first', () => {
+        assert.deepStrictEqual(githubUrl.getRefCandidates(['feature', 'x', 'file.ts']), [
+            { ref: 'feature', path: 'x/file.ts' },
+            { ref: 'feature/x', path: 'file.ts' }
+        ]);
+    });
+});
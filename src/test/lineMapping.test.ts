@@ -0,0 +1,71 @@
+import * as assert from 'assert';
+
+import * as lineMapping from '../lineMapping';
+
+suite('Line Mapping Tests', () => {
+    const remote = ['import a', 'import b', '', 'function f() {', '  return 1;', '}', ''];
+
+    test('computeLineMapping should map identical texts line by line', () => {
+        assert.deepStrictEqual(lineMapping.computeLineMapping(remote, remote), [0, 1, 2, 3, 4, 5, 6]);
+    });
+
+    test('computeLineMapping should shift lines after local insertions', () => {
+        const local = ['import a', 'import b', 'import c', 'import d', '', 'function f() {', '  return 1;', '}', ''];
+        assert.deepStrictEqual(lineMapping.computeLineMapping(remote, local), [0, 1, -1, -1, 2, 3, 4, 5, 6]);
+    });
+
+    test('computeLineMapping should shift lines after local deletions', () => {
+        const local = ['import a', '', 'function f() {', '  return 1;', '}', ''];
+        assert.deepStrictEqual(lineMapping.computeLineMapping(remote, local), [0, 2, 3, 4, 5, 6]);
+    });
+
+    test('computeLineMapping should mark changed lines as local only', () => {
+        const local = ['import a', 'import b', '', 'function f() {', '  return 2;', '}', ''];
+        assert.deepStrictEqual(lineMapping.computeLineMapping(remote, local), [0, 1, 2, 3, -1, 5, 6]);
+    });
+
+    test('computeLineMapping should handle changes spread through the file', () => {
+        const local = ['// header', 'import a', 'import b', 'function f() {', '  // comment', '  return 1;', '}', '', 'export { f };'];
+        assert.deepStrictEqual(lineMapping.computeLineMapping(remote, local), [-1, 0, 1, 3, -1, 4, 5, 6, -1]);
+    });
+
+    test('computeLineMapping should give up when the texts differ too much', () => {
+        const local = remote.map(line => `${line} changed`);
+        assert.strictEqual(lineMapping.computeLineMapping(remote, local, 3), null);
+    });
+
+    test('mapRange should translate the lines that exist remotely', () => {
+        const mapping = [0, 1, -1, -1, 2, 3, 4, 5, 6];
+        assert.deepStrictEqual(lineMapping.mapRange(mapping, { start: 5, end: 7 }), { start: 3, end: 5 });
+        assert.deepStrictEqual(lineMapping.mapRange(mapping, { start: 1, end: 4 }), { start: 1, end: 2 });
+    });
+
+    test('mapRange should return null when no selected line exists remotely', () => {
+        assert.strictEqual(lineMapping.mapRange([0, 1, -1, -1, 2], { start: 2, end: 3 }), null);
+    });
+
+    test('findNearestMappedLine should find the closest surviving line', () => {
+        assert.strictEqual(lineMapping.findNearestMappedLine([0, 1, -1, -1, -1, 2], 4), 2);
+        assert.strictEqual(lineMapping.findNearestMappedLine([0, 1, -1, -1, -1, 2], 2), 1);
+        assert.strictEqual(lineMapping.findNearestMappedLine([-1, -1], 0), null);
+    });
+
+    test('splitLines should handle both line endings', () => {
+        assert.deepStrictEqual(lineMapping.splitLines('a\r\nb\nc'), ['a', 'b', 'c']);
+    });
+
+    test('getSelectionLines should leave out a last line selected up to column 0', () => {
+        const position = (line: number, character: number) => ({ line, character });
+        assert.deepStrictEqual(lineMapping.getSelectionLines({ start: position(4, 0), end: position(7, 0) }), { start: 4, end: 6 });
+        assert.deepStrictEqual(lineMapping.getSelectionLines({ start: position(4, 2), end: position(7, 1) }), { start: 4, end: 7 });
+        // A cursor, or a selection within one line, stays on its line
+        assert.deepStrictEqual(lineMapping.getSelectionLines({ start: position(4, 0), end: position(4, 0) }), { start: 4, end: 4 });
+    });
+
+    test('mergeLineRanges should merge overlapping and adjacent ranges in order', () => {
+        assert.deepStrictEqual(
+            lineMapping.mergeLineRanges([{ start: 20, end: 22 }, { start: 1, end: 3 }, { start: 4, end: 5 }, { start: 21, end: 30 }, { start: 10, end: 10 }]),
+            [{ start: 1, end: 5 }, { start: 10, end: 10 }, { start: 20, end: 30 }]
+        );
+    });
+});
@@ -0,0 +1,113 @@
+import * as assert from 'assert';
+
+import * as markdown from '../markdown';
+
+suite('Markdown Heading Tests', () => {
+    suite('slugifyHeading', () => {
+        test('slugifyHeading should lowercase and hyphenate words', () => {
+            assert.strictEqual(markdown.slugifyHeading('Getting Started'), 'getting-started');
+            assert.strictEqual(markdown.slugifyHeading('API Reference v2'), 'api-reference-v2');
+        });
+
+        test('slugifyHeading should drop punctuation but keep hyphens and underscores', () => {
+            assert.strictEqual(markdown.slugifyHeading('What\'s new in 1.2.0?'), 'whats-new-in-120');
+            assert.strictEqual(markdown.slugifyHeading('Install (macOS & Linux)'), 'install-macos--linux');
+            assert.strictEqual(markdown.slugifyHeading('pre-commit hooks'), 'pre-commit-hooks');
+            assert.strictEqual(markdown.slugifyHeading('snake_case_name'), 'snake_case_name');
+        });
+
+        test('slugifyHeading should turn every space into a hyphen', () => {
+            assert.strictEqual(markdown.slugifyHeading('A  -  B'), 'a-----b');
+            assert.strictEqual(markdown.slugifyHeading(' Padded '), '-padded-');
+        });
+
+        test('slugifyHeading should keep non-Latin letters and drop emoji', () => {
+            assert.strictEqual(markdown.slugifyHeading('Café Crème'), 'café-crème');
+            assert.strictEqual(markdown.slugifyHeading('日本語 ドキュメント'), '日本語-ドキュメント');
+            assert.strictEqual(markdown.slugifyHeading('🚀 Launch'), '-launch');
+        });
+    });
+
+    suite('createSlugger', () => {
+        test('Repeated headings should be numbered in order', () => {
+            const slugger = markdown.createSlugger();
+            assert.deepStrictEqual(['Usage', 'Usage', 'Usage'].map(slugger), ['usage', 'usage-1', 'usage-2']);
+        });
+
+        test('Numbered slugs should skip suffixes taken by other headings', () => {
+            const slugger = markdown.createSlugger();
+            assert.deepStrictEqual(['Example 1', 'Example', 'Example'].map(slugger), ['example-1', 'example', 'example-2']);
+        });
+    });
+
+    suite('getHeadingText', () => {
+        test('getHeadingText should keep the text of links and code', () => {
+            assert.strictEqual(markdown.getHeadingText('The [`open`](#open) command'), 'The open command');
+        });
+
+        test('getHeadingText should remove images, tags, emphasis and escapes', () => {
+            assert.strictEqual(markdown.getHeadingText('![logo](logo.png) <sup>New</sup> _Fast_ \\#1'), 'New Fast #1');
+            assert.strictEqual(markdown.getHeadingText('__init__ and my_var'), 'init and my_var');
+        });
+    });
+
+    suite('findMarkdownHeadings', () => {
+        test('findMarkdownHeadings should find # and underlined headings', () => {
+            const headings = markdown.findMarkdownHeadings([
+                '# Title',
+                '',
+                'Intro',
+                '=====',
+                '',
+                '## Usage ##',
+                'Text',
+                '',
+                'Details',
+                '-------'
+            ]);
+            assert.deepStrictEqual(headings, [
+                { text: 'Title', slug: 'title', startLine: 0, endLine: 0 },
+                { text: 'Intro', slug: 'intro', startLine: 2, endLine: 3 },
+                { text: 'Usage', slug: 'usage', startLine: 5, endLine: 5 },
+                { text: 'Details', slug: 'details', startLine: 8, endLine: 9 }
+            ]);
+        });
+
+        test('findMarkdownHeadings should skip code blocks and front matter', () => {
+            const headings = markdown.findMarkdownHeadings([
+                '---',
+                'title: Docs',
+                '---',
+                '# Setup',
+                '```sh',
+                '# not a heading',
+                '```',
+                '~~~~',
+                '```',
+                '# still code',
+                '~~~~',
+                '    # indented code',
+                '#hashtag',
+                '- item',
+                '---',
+                '## Setup'
+            ]);
+            assert.deepStrictEqual(headings.map(heading => heading.slug), ['setup', 'setup-1']);
+        });
+    });
+
+    suite('getHeadingAt', () => {
+        const lines = ['# Guide', '', 'Text', '', '## Guide', 'Overview', '========'];
+
+        test('getHeadingAt should return the heading on the line with its unique slug', () => {
+            assert.strictEqual(markdown.getHeadingAt(lines, 0)?.slug, 'guide');
+            assert.strictEqual(markdown.getHeadingAt(lines, 4)?.slug, 'guide-1');
+            assert.strictEqual(markdown.getHeadingAt(lines, 6)?.slug, 'overview');
+        });
+
+        test('getHeadingAt should return null off headings and for empty ones', () => {
+            assert.strictEqual(markdown.getHeadingAt(lines, 2), null);
+            assert.strictEqual(markdown.getHeadingAt(['#', '## 🎉'], 0), null);
+        });
+    });
+});
@@ -0,0 +1,203 @@
+import * as assert from 'assert';
+
+import * as providers from '../providers';
+
+suite('Hosting Provider Tests', () => {
+    const sha = 'abcdef1234567890abcdef1234567890abcdef12';
+
+    suite('detectProvider', () => {
+        test('detectProvider should recognize the public hosts', () => {
+            assert.strictEqual(providers.detectProvider('github.com')?.id, 'github');
+            assert.strictEqual(providers.detectProvider('gitlab.com')?.id, 'gitlab');
+            assert.strictEqual(providers.detectProvider('bitbucket.org')?.id, 'bitbucket');
+            assert.strictEqual(providers.detectProvider('codeberg.org')?.id, 'gitea');
+            assert.strictEqual(providers.detectProvider('dev.azure.com')?.id, 'azure');
+            assert.strictEqual(providers.detectProvider('myorg.visualstudio.com')?.id, 'azure');
+        });
+
+        test('detectProvider should recognize self-hosted hosts by name', () => {
+            assert.strictEqual(providers.detectProvider('gitlab.example.com')?.id, 'gitlab');
+            assert.strictEqual(providers.detectProvider('bitbucket.example.com')?.id, 'bitbucket');
+            assert.strictEqual(providers.detectProvider('forgejo.example.com')?.id, 'gitea');
+        });
+
+        test('detectProvider should prefer configured hosts', () => {
+            const providerHosts: Record<string, providers.ProviderId> = { 'Git.Corp.Example.com': 'gitlab' };
+            assert.strictEqual(providers.detectProvider('git.corp.example.com', providerHosts)?.id, 'gitlab');
+        });
+
+        test('detectProvider should return null for unknown hosts', () => {
+            assert.strictEqual(providers.detectProvider('example.com'), null);
+        });
+    });
+
+    suite('isRenderedFile', () => {
+        test('isRenderedFile should recognize Markdown, notebooks, tables and images', () => {
+            ['README.md', 'docs/guide.markdown', 'notebooks/analysis.ipynb', 'data/table.csv', 'data/table.tsv', 'icons/logo.SVG']
+                .forEach(filePath => assert.ok(providers.isRenderedFile(filePath), filePath));
+        });
+
+        test('isRenderedFile should leave other files alone', () => {
+            ['src/file.ts', 'Makefile', 'md/file.txt', 'docs.md/file.txt', '.md.bak']
+                .forEach(filePath => assert.ok(!providers.isRenderedFile(filePath), filePath));
+        });
+    });
+
+    suite('GitHub', () => {
+        const webUrl = 'https://github.com/username/repo';
+        const provider = providers.githubProvider;
+
+        test('GitHub should build file, directory and line URLs', () => {
+            assert.strictEqual(provider.fileUrl(webUrl, 'main', 'src/file.ts'), `${webUrl}/blob/main/src/file.ts`);
+            assert.strictEqual(provider.directoryUrl(webUrl, 'main', 'src/lib'), `${webUrl}/tree/main/src/lib`);
+            assert.strictEqual(provider.lineUrl(webUrl, 'main', 'src/file.ts', 10), `${webUrl}/blob/main/src/file.ts#L10`);
+            assert.strictEqual(provider.lineUrl(webUrl, 'main', 'src/file.ts', 10, 20), `${webUrl}/blob/main/src/file.ts#L10-L20`);
+        });
+
+        test('GitHub should build blame, history, raw and commit URLs', () => {
+            assert.strictEqual(provider.blameUrl(webUrl, 'main', 'src/file.ts', 10, 20), `${webUrl}/blame/main/src/file.ts#L10-L20`);
+            assert.strictEqual(provider.historyUrl(webUrl, 'main', 'src/file.ts'), `${webUrl}/commits/main/src/file.ts`);
+            assert.strictEqual(provider.rawUrl(webUrl, 'main', 'src/file.ts'), `${webUrl}/raw/main/src/file.ts`);
+            assert.strictEqual(provider.commitUrl(webUrl, sha), `${webUrl}/commit/${sha}`);
+        });
+
+        test('GitHub should anchor the file and line in a commit diff', () => {
+            // sha256('src/file.ts')
+            const fileHash = 'bc9705d0f7a567399044dfc66ccc82d4d9aa1cff116842a0094d54e463c9ecbc';
+            assert.strictEqual(provider.commitUrl(webUrl, sha, 'src/file.ts'), `${webUrl}/commit/${sha}#diff-${fileHash}`);
+            assert.strictEqual(provider.commitUrl(webUrl, sha, 'src/file.ts', 12), `${webUrl}/commit/${sha}#diff-${fileHash}R12`);
+        });
+
+        test('GitHub should build compare and pull request URLs', () => {
+            assert.strictEqual(provider.compareUrl(webUrl, 'main', 'feature/x', false), `${webUrl}/compare/main...feature/x`);
+            assert.strictEqual(provider.compareUrl(webUrl, 'main', 'user:feature/x', true), `${webUrl}/compare/main...user:feature/x?expand=1`);
+        });
+
+        test('GitHub should link lines of rendered files in the plain view', () => {
+            assert.strictEqual(provider.lineUrl(webUrl, 'main', 'README.md', 10, 20), `${webUrl}/blob/main/README.md?plain=1#L10-L20`);
+            assert.strictEqual(provider.lineUrl(webUrl, 'main', 'data/table.CSV', 3), `${webUrl}/blob/main/data/table.CSV?plain=1#L3`);
+            assert.strictEqual(provider.blameUrl(webUrl, 'main', 'README.md', 10), `${webUrl}/blame/main/README.md#L10`);
+            assert.strictEqual(provider.fileUrl(webUrl, 'main', 'README.md'), `${webUrl}/blob/main/README.md`);
+        });
+
+        test('GitHub should escape file paths', () => {
+            assert.strictEqual(provider.fileUrl(webUrl, 'main', 'docs/my file#1.md'), `${webUrl}/blob/main/docs/my%20file%231.md`);
+        });
+    });
+
+    suite('GitLab', () => {
+        const webUrl = 'https://gitlab.com/group/repo';
+        const provider = providers.gitlabProvider;
+
+        test('GitLab should build file, directory and line URLs', () => {
+            assert.strictEqual(provider.fileUrl(webUrl, 'main', 'src/file.ts'), `${webUrl}/-/blob/main/src/file.ts`);
+            assert.strictEqual(provider.directoryUrl(webUrl, 'main', 'src/lib'), `${webUrl}/-/tree/main/src/lib`);
+            assert.strictEqual(provider.lineUrl(webUrl, 'main', 'src/file.ts', 10), `${webUrl}/-/blob/main/src/file.ts#L10`);
+            assert.strictEqual(provider.lineUrl(webUrl, 'main', 'src/file.ts', 10, 20), `${webUrl}/-/blob/main/src/file.ts#L10-20`);
+        });
+
+        test('GitLab should link lines of rendered files in the plain view', () => {
+            assert.strictEqual(provider.lineUrl(webUrl, 'main', 'docs/index.md', 10, 20), `${webUrl}/-/blob/main/docs/index.md?plain=1#L10-20`);
+        });
+
+        test('GitLab should build blame, history, raw and commit URLs', () => {
+            assert.strictEqual(provider.blameUrl(webUrl, 'main', 'src/file.ts', 10, 20), `${webUrl}/-/blame/main/src/file.ts#L10-20`);
+            assert.strictEqual(provider.historyUrl(webUrl, 'main', 'src/file.ts'), `${webUrl}/-/commits/main/src/file.ts`);
+            assert.strictEqual(provider.rawUrl(webUrl, 'main', 'src/file.ts'), `${webUrl}/-/raw/main/src/file.ts`);
+            assert.strictEqual(provider.commitUrl(webUrl, sha), `${webUrl}/-/commit/${sha}`);
+        });
+
+        test('GitLab should build compare and merge request URLs', () => {
+            assert.strictEqual(provider.compareUrl(webUrl, 'main', 'feature/x', false), `${webUrl}/-/compare/main...feature/x`);
+            assert.strictEqual(
+                provider.compareUrl(webUrl, 'main', 'feature/x', true),
+                `${webUrl}/-/merge_requests/new?merge_request[source_branch]=feature%2Fx&merge_request[target_branch]=main`
+            );
+        });
+    });
+
+    suite('Bitbucket', () => {
+        const webUrl = 'https://bitbucket.org/team/repo';
+        const provider = providers.bitbucketProvider;
+
+        test('Bitbucket should build file, directory and line URLs', () => {
+            assert.strictEqual(provider.fileUrl(webUrl, 'main', 'src/file.ts'), `${webUrl}/src/main/src/file.ts`);
+            assert.strictEqual(provider.directoryUrl(webUrl, 'main', 'src/lib'), `${webUrl}/src/main/src/lib/`);
+            assert.strictEqual(provider.lineUrl(webUrl, 'main', 'src/file.ts', 10), `${webUrl}/src/main/src/file.ts#lines-10`);
+            assert.strictEqual(provider.lineUrl(webUrl, 'main', 'src/file.ts', 10, 20), `${webUrl}/src/main/src/file.ts#lines-10:20`);
+        });
+
+        test('Bitbucket should build blame, history, raw and commit URLs', () => {
+            assert.strictEqual(provider.blameUrl(webUrl, 'main', 'src/file.ts', 10, 20), `${webUrl}/annotate/main/src/file.ts#lines-10:20`);
+            assert.strictEqual(provider.historyUrl(webUrl, 'main', 'src/file.ts'), `${webUrl}/history-node/main/src/file.ts`);
+            assert.strictEqual(provider.rawUrl(webUrl, 'main', 'src/file.ts'), `${webUrl}/raw/main/src/file.ts`);
+            assert.strictEqual(provider.commitUrl(webUrl, sha), `${webUrl}/commits/${sha}`);
+        });
+
+        test('Bitbucket should build compare and pull request URLs', () => {
+            assert.strictEqual(provider.compareUrl(webUrl, 'main', 'feature/x', false), `${webUrl}/branches/compare/feature%2Fx%0Dmain`);
+            assert.strictEqual(provider.compareUrl(webUrl, 'main', 'feature/x', true), `${webUrl}/pull-requests/new?source=feature%2Fx&dest=main`);
+        });
+    });
+
+    suite('Gitea', () => {
+        const webUrl = 'https://codeberg.org/user/repo';
+        const provider = providers.giteaProvider;
+
+        test('Gitea should build file, directory and line URLs for branches and commits', () => {
+            assert.strictEqual(provider.fileUrl(webUrl, 'main', 'src/file.ts'), `${webUrl}/src/branch/main/src/file.ts`);
+            assert.strictEqual(provider.directoryUrl(webUrl, 'main', 'src/lib'), `${webUrl}/src/branch/main/src/lib`);
+            assert.strictEqual(provider.lineUrl(webUrl, 'main', 'src/file.ts', 10, 20), `${webUrl}/src/branch/main/src/file.ts#L10-L20`);
+            assert.strictEqual(provider.lineUrl(webUrl, sha, 'src/file.ts', 10), `${webUrl}/src/commit/${sha}/src/file.ts#L10`);
+        });
+
+        test('Gitea should link lines of rendered files in the source view', () => {
+            assert.strictEqual(provider.lineUrl(webUrl, 'main', 'README.md', 10), `${webUrl}/src/branch/main/README.md?display=source#L10`);
+        });
+
+        test('Gitea should build blame, history, raw and commit URLs', () => {
+            assert.strictEqual(provider.blameUrl(webUrl, 'main', 'src/file.ts', 10), `${webUrl}/blame/branch/main/src/file.ts#L10`);
+            assert.strictEqual(provider.historyUrl(webUrl, 'main', 'src/file.ts'), `${webUrl}/commits/branch/main/src/file.ts`);
+            assert.strictEqual(provider.rawUrl(webUrl, sha, 'src/file.ts'), `${webUrl}/raw/commit/${sha}/src/file.ts`);
+            assert.strictEqual(provider.commitUrl(webUrl, sha), `${webUrl}/commit/${sha}`);
+        });
+
+        test('Gitea should build compare URLs, which also create pull requests', () => {
+            assert.strictEqual(provider.compareUrl(webUrl, 'main', 'user:feature/x', false), `${webUrl}/compare/main...user:feature/x`);
+            assert.strictEqual(provider.compareUrl(webUrl, 'main', 'user:feature/x', true), `${webUrl}/compare/main...user:feature/x`);
+        });
+    });
+
+    suite('Azure DevOps', () => {
+        const webUrl = 'https://dev.azure.com/org/project/_git/repo';
+        const provider = providers.azureProvider;
+
+        test('Azure DevOps should build file, directory and line URLs', () => {
+            assert.strictEqual(provider.fileUrl(webUrl, 'main', 'src/file.ts'), `${webUrl}?path=/src/file.ts&version=GBmain`);
+            assert.strictEqual(provider.directoryUrl(webUrl, 'main', 'src/lib'), `${webUrl}?path=/src/lib&version=GBmain`);
+            assert.strictEqual(
+                provider.lineUrl(webUrl, 'feature/x', 'src/file.ts', 10, 20),
+                `${webUrl}?path=/src/file.ts&version=GBfeature%2Fx&line=10&lineEnd=21&lineStartColumn=1&lineEndColumn=1&lineStyle=plain&_a=contents`
+            );
+            assert.strictEqual(
+                provider.lineUrl(webUrl, sha, 'src/file.ts', 10),
+                `${webUrl}?path=/src/file.ts&version=GC${sha}&line=10&lineEnd=11&lineStartColumn=1&lineEndColumn=1&lineStyle=plain&_a=contents`
+            );
+        });
+
+        test('Azure DevOps should build blame, history, raw and commit URLs', () => {
+            assert.strictEqual(provider.blameUrl(webUrl, 'main', 'src/file.ts', 10), `${webUrl}?path=/src/file.ts&version=GBmain&line=10&_a=blame`);
+            assert.strictEqual(provider.historyUrl(webUrl, 'main', 'src/file.ts'), `${webUrl}?path=/src/file.ts&version=GBmain&_a=history`);
+            assert.strictEqual(
+                provider.rawUrl(webUrl, 'main', 'src/file.ts'),
+                'https://dev.azure.com/org/project/_apis/git/repositories/repo/items?path=/src/file.ts&versionDescriptor.version=main&versionDescriptor.versionType=branch&download=true'
+            );
+            assert.strictEqual(provider.commitUrl(webUrl, sha), `${webUrl}/commit/${sha}`);
+        });
+
+        test('Azure DevOps should build compare and pull request URLs', () => {
+            assert.strictEqual(provider.compareUrl(webUrl, 'main', 'feature/x', false), `${webUrl}/branchCompare?baseVersion=GBmain&targetVersion=GBfeature%2Fx`);
+            assert.strictEqual(provider.compareUrl(webUrl, 'main', 'feature/x', true), `${webUrl}/pullrequestcreate?sourceRef=feature%2Fx&targetRef=main`);
+        });
+    });
+});
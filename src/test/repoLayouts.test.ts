@@ -0,0 +1,148 @@
+import * as assert from 'assert';
+import * as cp from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import * as git from '../git';
+
+// Runs against real repositories in a temporary directory, since submodules and worktrees
+// depend on how git lays out .git files and directories on disk
+suite('Repository Layout Integration Tests', function() {
+    this.timeout(30000);
+
+    let tempDir: string;
+    // An empty SSH config keeps ~/.ssh/config out of the tests
+    const options: git.RepoInfoOptions = { sshConfig: '' };
+
+    function run(cwd: string, ...args: string[]): string {
+        return cp.execFileSync('git', args, {
+            cwd,
+            encoding: 'utf8',
+            env: {
+                ...process.env,
+                GIT_AUTHOR_NAME: 'Test',
+                GIT_AUTHOR_EMAIL: 'test@example.com',
+                GIT_COMMITTER_NAME: 'Test',
+                GIT_COMMITTER_EMAIL: 'test@example.com'
+            }
+        }).trim();
+    }
+
+    function createRepo(repoPath: string, remoteUrl: string, fileName: string): void {
+        fs.mkdirSync(repoPath, { recursive: true });
+        run(repoPath, 'init', '--quiet', '--initial-branch=main');
+        fs.writeFileSync(path.join(repoPath, fileName), 'content\n');
+        run(repoPath, 'add', '.');
+        run(repoPath, 'commit', '--quiet', '-m', 'Initial commit');
+        run(repoPath, 'remote', 'add', 'origin', remoteUrl);
+    }
+
+    suiteSetup(() => {
+        // The real path, because git reports the top level with symlinks (like macOS's /tmp) resolved
+        tempDir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'open-in-github-simple-')));
+    });
+
+    suiteTeardown(() => {
+        fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    suite('Submodules', () => {
+        let appPath: string;
+        let submodulePath: string;
+        let pinnedCommit: string;
+
+        suiteSetup(() => {
+            const libPath = path.join(tempDir, 'lib');
+            createRepo(libPath, 'https://github.com/org/lib.git', 'lib.ts');
+            pinnedCommit = run(libPath, 'rev-parse', 'HEAD');
+
+            appPath = path.join(tempDir, 'app');
+            createRepo(appPath, 'https://github.com/org/app.git', 'app.ts');
+            run(appPath, '-c', 'protocol.file.allow=always', 'submodule', 'add', '--quiet', libPath, 'vendor/lib');
+            run(appPath, 'commit', '--quiet', '-m', 'Add submodule');
+
+            // The clone's origin is the local path, point it at the hosted repository instead
+            submodulePath = path.join(appPath, 'vendor', 'lib');
+            run(submodulePath, 'remote', 'set-url', 'origin', 'https://github.com/org/lib.git');
+
+            // Move the submodule past the commit the superproject pins
+            fs.writeFileSync(path.join(submodulePath, 'lib.ts'), 'changed\n');
+            run(submodulePath, 'commit', '--quiet', '-am', 'Change lib');
+        });
+
+        test('Files in a submodule should use the submodule\'s root and remote', async () => {
+            const repoInfo = await git.getRepoInfo(path.join(submodulePath, 'lib.ts'), options);
+            assert.strictEqual(repoInfo?.rootPath, submodulePath);
+            assert.strictEqual(repoInfo?.remoteUrl, 'https://github.com/org/lib');
+            assert.strictEqual(repoInfo?.branch, 'main');
+            assert.strictEqual(repoInfo?.commit, run(submodulePath, 'rev-parse', 'HEAD'));
+        });
+
+        test('Files in the superproject should use the superproject\'s remote', async () => {
+            const repoInfo = await git.getRepoInfo(path.join(appPath, 'app.ts'), options);
+            assert.strictEqual(repoInfo?.rootPath, appPath);
+            assert.strictEqual(repoInfo?.remoteUrl, 'https://github.com/org/app');
+        });
+
+        test('pinSubmodules should link to the commit the superproject pins', async () => {
+            const repoInfo = await git.getRepoInfo(path.join(submodulePath, 'lib.ts'), { ...options, pinSubmodules: true });
+            assert.strictEqual(repoInfo?.branch, pinnedCommit);
+            assert.strictEqual(repoInfo?.branchSource, 'pinned');
+        });
+
+        test('pinSubmodules should not affect the superproject', async () => {
+            const repoInfo = await git.getRepoInfo(path.join(appPath, 'app.ts'), { ...options, pinSubmodules: true });
+            assert.strictEqual(repoInfo?.branch, 'main');
+            assert.notStrictEqual(repoInfo?.branchSource, 'pinned');
+        });
+    });
+
+    suite('Worktrees', () => {
+        let worktreePath: string;
+
+        suiteSetup(() => {
+            const mainPath = path.join(tempDir, 'service');
+            createRepo(mainPath, 'git@github.com:org/service.git', 'service.ts');
+            worktreePath = path.join(tempDir, 'service-feature');
+            run(mainPath, 'worktree', 'add', '--quiet', '-b', 'feature/x', worktreePath);
+        });
+
+        test('Files in a linked worktree should use the worktree\'s root and branch', async () => {
+            // A linked worktree has a .git file pointing into the main repository
+            assert.ok(fs.statSync(path.join(worktreePath, '.git')).isFile());
+
+            const repoInfo = await git.getRepoInfo(path.join(worktreePath, 'service.ts'), options);
+            assert.strictEqual(repoInfo?.rootPath, worktreePath);
+            assert.strictEqual(repoInfo?.remoteUrl, 'https://github.com/org/service');
+            assert.strictEqual(repoInfo?.branch, 'feature/x');
+        });
+    });
+
+    suite('Nested repositories', () => {
+        let outerPath: string;
+        let innerPath: string;
+
+        suiteSetup(() => {
+            outerPath = path.join(tempDir, 'monorepo');
+            createRepo(outerPath, 'https://github.com/org/monorepo.git', 'README.md');
+            innerPath = path.join(outerPath, 'packages', 'tool');
+            createRepo(innerPath, 'https://gitlab.com/group/tool.git', 'tool.ts');
+        });
+
+        test('Files in a nested repository should use the innermost repository', async () => {
+            const repoInfo = await git.getRepoInfo(path.join(innerPath, 'tool.ts'), { ...options, pinSubmodules: true });
+            assert.strictEqual(repoInfo?.rootPath, innerPath);
+            assert.strictEqual(repoInfo?.provider, 'gitlab');
+            assert.strictEqual(repoInfo?.remoteUrl, 'https://gitlab.com/group/tool');
+            // Not a submodule, so there is no pinned commit
+            assert.strictEqual(repoInfo?.branchSource, 'local');
+        });
+
+        test('Folders of the enclosing repository should still use the enclosing repository', async () => {
+            const repoInfo = await git.getRepoInfo(path.join(outerPath, 'packages'), options);
+            assert.strictEqual(repoInfo?.rootPath, outerPath);
+            assert.strictEqual(repoInfo?.remoteUrl, 'https://github.com/org/monorepo');
+        });
+    });
+});
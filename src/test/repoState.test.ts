@@ -0,0 +1,141 @@
+import * as assert from 'assert';
+import * as cp from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as sinon from 'sinon';
+import * as vscode from 'vscode';
+
+import { RepoStateService, createRepoStateService } from '../repoState';
+
+suite('Repository State Tests', function() {
+    this.timeout(30000);
+
+    let tempDir: string;
+    let repoPath: string;
+    let service: RepoStateService;
+
+    suiteSetup(() => {
+        tempDir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'open-in-github-simple-')));
+        repoPath = path.join(tempDir, 'repo');
+        fs.mkdirSync(repoPath);
+        fs.writeFileSync(path.join(repoPath, 'file.ts'), 'content\n');
+
+        const git = (...args: string[]) => cp.execFileSync('git', args, {
+            cwd: repoPath,
+            env: { ...process.env, GIT_AUTHOR_NAME: 'Test', GIT_AUTHOR_EMAIL: 'test@example.com', GIT_COMMITTER_NAME: 'Test', GIT_COMMITTER_EMAIL: 'test@example.com' }
+        });
+        git('init', '--quiet', '--initial-branch=main');
+        git('add', '.');
+        git('commit', '--quiet', '-m', 'Initial commit');
+        git('remote', 'add', 'origin', 'git@github.com:org/repo.git');
+        git('config', 'branch.main.remote', 'origin');
+        git('config', 'branch.main.merge', 'refs/heads/main');
+    });
+
+    setup(() => {
+        service = createRepoStateService();
+    });
+
+    teardown(() => {
+        service.dispose();
+    });
+
+    suiteTeardown(() => {
+        fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    test('getRepoState should read HEAD, the upstream and the remotes', async () => {
+        const state = await service.getRepoState(path.join(repoPath, 'file.ts'));
+        assert.strictEqual(state?.rootPath, repoPath);
+        assert.match(state?.commit ?? '', /^[0-9a-f]{40}$/);
+        assert.strictEqual(state?.branch, 'main');
+        assert.strictEqual(state?.upstreamRemote, 'origin');
+        assert.strictEqual(state?.upstreamBranch, 'main');
+        assert.deepStrictEqual(state?.remotes, [{ name: 'origin', url: 'git@github.com:org/repo.git' }]);
+    });
+
+    test('getRepoState should reuse the state of a repository', async () => {
+        const first = await service.getRepoState(path.join(repoPath, 'file.ts'));
+        const second = await service.getRepoState(repoPath);
+        assert.strictEqual(first, second);
+    });
+
+    test('getRepoState should return null outside a repository', async () => {
+        assert.strictEqual(await service.getRepoState(path.join(tempDir, 'elsewhere.ts')), null);
+    });
+
+    suite('vscode.git API', () => {
+        let sandbox: sinon.SinonSandbox;
+        let head: { name?: string; commit?: string };
+        let fireChange: () => void;
+
+        setup(() => {
+            sandbox = sinon.createSandbox();
+            head = { name: 'main', commit: 'abcdef1234567890abcdef1234567890abcdef12' };
+            fireChange = () => undefined;
+
+            // Reports the outer repository for every file, as the Git extension does for repositories it hasn't opened
+            const repository = {
+                rootUri: vscode.Uri.file(repoPath),
+                state: {
+                    get HEAD() {
+                        return { ...head };
+                    },
+                    remotes: [{ name: 'origin', fetchUrl: 'https://github.com/org/from-api.git' }],
+                    onDidChange: (listener: () => void) => {
+                        fireChange = listener;
+                        return { dispose: () => undefined };
+                    }
+                }
+            };
+            sandbox.stub(vscode.extensions, 'getExtension').returns({
+                isActive: true,
+                exports: { enabled: true, getAPI: () => ({ getRepository: () => repository }) }
+            } as unknown as vscode.Extension<unknown>);
+
+            // The service was created before the stub
+            service.dispose();
+            service = createRepoStateService();
+        });
+
+        teardown(() => {
+            sandbox.restore();
+        });
+
+        test('getRepoState should read repositories the Git extension has open from its API', async () => {
+            const state = await service.getRepoState(path.join(repoPath, 'file.ts'));
+            assert.strictEqual(state?.commit, head.commit);
+            assert.deepStrictEqual(state?.remotes, [{ name: 'origin', url: 'https://github.com/org/from-api.git' }]);
+        });
+
+        test('getRepoState should keep the state until HEAD or the remotes change', async () => {
+            const first = await service.getRepoState(path.join(repoPath, 'file.ts'));
+
+            // Saving a file or staging a change
+            fireChange();
+            assert.strictEqual(await service.getRepoState(path.join(repoPath, 'file.ts')), first);
+
+            head = { ...head, commit: '1234567890abcdef1234567890abcdef12345678' };
+            fireChange();
+            const second = await service.getRepoState(path.join(repoPath, 'file.ts'));
+            assert.notStrictEqual(second, first);
+            assert.strictEqual(second?.commit, head.commit);
+        });
+
+        test('getRepoState should leave repositories nested in an open one to the git CLI', async () => {
+            const nestedPath = path.join(repoPath, 'tools', 'nested');
+            fs.mkdirSync(nestedPath, { recursive: true });
+            fs.writeFileSync(path.join(nestedPath, 'tool.ts'), 'content\n');
+            cp.execFileSync('git', ['init', '--quiet', '--initial-branch=main'], { cwd: nestedPath });
+            try {
+                const state = await service.getRepoState(path.join(nestedPath, 'tool.ts'));
+                assert.strictEqual(state?.rootPath, nestedPath);
+                assert.deepStrictEqual(state?.remotes, []);
+                assert.strictEqual((await service.getRepoState(path.join(repoPath, 'file.ts')))?.rootPath, repoPath);
+            } finally {
+                fs.rmSync(path.join(repoPath, 'tools'), { recursive: true, force: true });
+            }
+        });
+    });
+});
@@ -0,0 +1,37 @@
+import * as assert from 'assert';
+
+import { RepoInfo } from '../git';
+import { getRepoLabel } from '../statusBar';
+
+suite('Status Bar Tests', () => {
+    const sha = 'abcdef1234567890abcdef1234567890abcdef12';
+    const repoInfo: RepoInfo = {
+        provider: 'github',
+        remoteName: 'origin',
+        remoteUrl: 'https://github.com/org/repo',
+        branch: 'main',
+        branchSource: 'local',
+        commit: sha,
+        rootPath: '/path/to/repo'
+    };
+
+    test('getRepoLabel should show the repository and branch', () => {
+        assert.strictEqual(getRepoLabel(repoInfo), 'org/repo@main');
+        assert.strictEqual(getRepoLabel({ ...repoInfo, branch: 'feature/x' }), 'org/repo@feature/x');
+    });
+
+    test('getRepoLabel should abbreviate commits', () => {
+        assert.strictEqual(getRepoLabel({ ...repoInfo, branch: sha, branchSource: 'pinned' }), 'org/repo@abcdef1');
+    });
+
+    test('getRepoLabel should drop _git from Azure DevOps repositories', () => {
+        assert.strictEqual(
+            getRepoLabel({ ...repoInfo, provider: 'azure', remoteUrl: 'https://dev.azure.com/org/project/_git/repo' }),
+            'org/project/repo@main'
+        );
+    });
+
+    test('getRepoLabel should keep the path of GitLab subgroups', () => {
+        assert.strictEqual(getRepoLabel({ ...repoInfo, provider: 'gitlab', remoteUrl: 'https://gitlab.com/group/sub/repo' }), 'group/sub/repo@main');
+    });
+});